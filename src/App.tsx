@@ -1,10 +1,22 @@
+import { useEffect, useState } from 'react'
 import './App.css'
 import HexagonBounce from './components/HexagonBounce'
+import { createSeed, readSeedFromUrl, writeSeedToUrl } from './utils/seed'
 
 /**
  * 主应用组件
  */
 function App() {
+  // 会话种子：优先读取 URL 中的 ?seed=，否则随机生成
+  const [seed, setSeed] = useState<number>(() => readSeedFromUrl() ?? createSeed())
+
+  /**
+   * 同步种子到 URL，复制链接即可复现同一会话
+   */
+  useEffect(() => {
+    writeSeedToUrl(seed)
+  }, [seed])
+
   return (
     <div className="app">
       <header className="app-header">
@@ -12,7 +24,8 @@ function App() {
         <p>在旋转的六边形内体验真实物理效果的弹球</p>
       </header>
       <main className="app-main">
-        <HexagonBounce />
+        {/* 种子变化时重新挂载，开始一个全新的会话 */}
+        <HexagonBounce key={seed} seed={seed} onSeedChange={setSeed} />
       </main>
     </div>
   )
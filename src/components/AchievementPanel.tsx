@@ -0,0 +1,60 @@
+import React from 'react';
+import { ACHIEVEMENTS } from '../simulation/achievements';
+import type { AchievementId, UnlockedAchievements } from '../simulation/achievements';
+
+/**
+ * 成就面板属性接口
+ */
+interface AchievementPanelProps {
+  unlocked: UnlockedAchievements;
+  progress: Record<AchievementId, number>; // 本局的进度 (0 到 1)
+}
+
+/**
+ * 格式化解锁日期
+ */
+const formatDate = (iso: string): string => {
+  return new Date(iso).toLocaleDateString();
+};
+
+/**
+ * 成就面板组件 - 展示所有成就，未解锁的显示本局进度
+ */
+const AchievementPanel: React.FC<AchievementPanelProps> = ({ unlocked, progress }) => {
+  const unlockedCount = ACHIEVEMENTS.filter((achievement) => unlocked[achievement.id]).length;
+
+  return (
+    <div className="control-panel achievement-panel">
+      <h3>成就 ({unlockedCount}/{ACHIEVEMENTS.length})</h3>
+
+      <div className="achievement-grid">
+        {ACHIEVEMENTS.map((achievement) => {
+          const date = unlocked[achievement.id];
+          return (
+            <div
+              key={achievement.id}
+              className={`achievement-card${date ? ' unlocked' : ''}`}
+              title={achievement.description}
+            >
+              <div className="achievement-icon">{achievement.icon}</div>
+              <div className="achievement-title">{achievement.title}</div>
+              <div className="achievement-description">{achievement.description}</div>
+              {date ? (
+                <div className="achievement-date">{formatDate(date)} 解锁</div>
+              ) : (
+                <div className="achievement-progress">
+                  <div
+                    className="achievement-progress-fill"
+                    style={{ width: `${Math.round(progress[achievement.id] * 100)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AchievementPanel;
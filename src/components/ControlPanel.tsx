@@ -0,0 +1,647 @@
+import React, { useEffect, useState } from 'react';
+import audioManager from '../utils/audio';
+import { createSeed, parseSeed } from '../utils/seed';
+import { DEFAULT_GRAVITY, GravityMode, PHYSICS_CONSTANTS } from '../utils/physics';
+import type { GravitySettings, PhysicsParams } from '../utils/physics';
+import { MATERIALS, MaterialId } from '../utils/materials';
+import { EDGE_BEHAVIOR_STYLES, EdgeBehavior, getEdgeBehavior } from '../utils/edgeBehaviors';
+import { supportsPinball } from '../utils/flippers';
+import {
+  MAX_SIDES,
+  MIN_SIDES,
+  SHAPE_PRESETS,
+  formatShapePoints,
+  getShapeSides,
+  parseShapePoints,
+} from '../utils/shapes';
+import type { ContainerShape } from '../utils/shapes';
+import { spreadGapEdges } from '../utils/collision';
+import { GAME_MODE_LABELS, GameMode, MAX_BALLS, MAX_RINGS, MAX_ROTATION_SPEED } from '../simulation/types';
+import type { ContainerRing, SimulationConfig } from '../simulation/types';
+
+/**
+ * 新增内层容器的默认参数：逐层缩小，旋转方向交替，每层两个缺口
+ */
+const createRing = (index: number, shape: ContainerShape): ContainerRing => ({
+  scale: 0.7 - index * 0.2,
+  rotationSpeed: index % 2 === 0 ? -1.5 : 1.5,
+  gaps: { edges: spreadGapEdges(getShapeSides(shape), 2), width: 40 },
+});
+
+/**
+ * 弹球模式下正多边形的最少边数（边数太少时挡板会转到墙外）
+ */
+const PINBALL_MIN_SIDES = Array.from({ length: MAX_SIDES - MIN_SIDES + 1 }, (_, index) => MIN_SIDES + index)
+  .find((sides) => supportsPinball({ kind: 'regular', sides })) ?? MAX_SIDES;
+
+/**
+ * 物理参数面板中可调节的常量及其滑块范围
+ */
+const PHYSICS_SLIDERS: { key: keyof PhysicsParams; label: string; min: number; max: number; step: number }[] = [
+  { key: 'BOUNCE_DAMPING', label: '墙面弹性', min: 0, max: 1, step: 0.05 },
+  { key: 'WALL_FRICTION', label: '墙面摩擦', min: 0, max: 1, step: 0.05 },
+  { key: 'FRICTION', label: '空气阻力', min: 0.05, max: 1, step: 0.05 },
+  { key: 'ROLLING_FRICTION', label: '滚动阻力', min: 0, max: 0.2, step: 0.01 },
+  { key: 'ANGULAR_DAMPING', label: '自转衰减', min: 0.05, max: 1, step: 0.05 },
+  { key: 'MAGNUS_COEFFICIENT', label: '马格努斯系数', min: 0, max: 0.1, step: 0.005 },
+];
+
+/**
+ * 控制面板属性接口
+ */
+interface ControlPanelProps {
+  config: SimulationConfig;
+  seed: number;
+  isPaused: boolean;
+  ballCount: number;
+  onConfigChange: (config: Partial<SimulationConfig>) => void;
+  onTogglePause: () => void;
+  onResetBall: () => void;
+  onAddBall: () => void;
+  onSeedChange: (seed: number) => void;
+}
+
+/**
+ * 游戏控制面板组件
+ */
+const ControlPanel: React.FC<ControlPanelProps> = ({
+  config,
+  seed,
+  isPaused,
+  ballCount,
+  onConfigChange,
+  onTogglePause,
+  onResetBall,
+  onAddBall,
+  onSeedChange,
+}) => {
+  const [soundEnabled, setSoundEnabled] = useState(true);
+  const [soundVolume, setSoundVolume] = useState(0.5);
+  const [seedInput, setSeedInput] = useState(String(seed));
+  const [pointsInput, setPointsInput] = useState(
+    config.shape.kind === 'custom' ? formatShapePoints(config.shape.points) : ''
+  );
+  const [pointsError, setPointsError] = useState<string | null>(null);
+
+  const shapeSelection = config.shape.kind === 'regular' ? 'regular' : config.shape.name;
+  const isPinball = config.mode === GameMode.PINBALL;
+
+  /**
+   * 更换形状，同时按新的边数重新分布内层容器的缺口
+   */
+  const changeShape = (shape: ContainerShape) => {
+    const sides = getShapeSides(shape);
+    onConfigChange({
+      shape,
+      rings: config.rings.map((ring) => ({
+        ...ring,
+        gaps: { ...ring.gaps, edges: spreadGapEdges(sides, ring.gaps.edges.length) },
+      })),
+      escapeGaps: {
+        ...config.escapeGaps,
+        edges: spreadGapEdges(sides, config.escapeGaps.edges.length),
+      },
+    });
+  };
+
+  /**
+   * 切换容器形状：正多边形、预设形状或自定义顶点
+   */
+  const selectShape = (selection: string) => {
+    setPointsError(null);
+    if (selection === 'regular') {
+      changeShape({ kind: 'regular', sides: 6 });
+    } else if (selection === 'custom') {
+      const points = config.shape.kind === 'custom'
+        ? config.shape.points
+        : SHAPE_PRESETS.star.points;
+      setPointsInput(formatShapePoints(points));
+      changeShape({ kind: 'custom', name: 'custom', points });
+    } else {
+      changeShape({ kind: 'custom', name: selection, points: SHAPE_PRESETS[selection].points });
+    }
+  };
+
+  /**
+   * 修改重力设置
+   */
+  const updateGravity = (changes: Partial<GravitySettings>) => {
+    onConfigChange({ gravity: { ...config.gravity, ...changes } });
+  };
+
+  /**
+   * 修改单个物理参数
+   */
+  const updatePhysics = (key: keyof PhysicsParams, value: number) => {
+    onConfigChange({ physics: { ...config.physics, [key]: value } });
+  };
+
+  /**
+   * 物理参数和重力恢复默认值
+   */
+  const resetPhysics = () => {
+    onConfigChange({ physics: { ...PHYSICS_CONSTANTS }, gravity: { ...DEFAULT_GRAVITY } });
+  };
+
+  /**
+   * 修改最外层容器某条边的墙面类型
+   */
+  const updateEdgeBehavior = (edgeIndex: number, behavior: EdgeBehavior) => {
+    const edgeBehaviors = Array.from({ length: getShapeSides(config.shape) }, (_, index) =>
+      index === edgeIndex ? behavior : getEdgeBehavior(config.edgeBehaviors, index)
+    );
+    onConfigChange({ edgeBehaviors });
+  };
+
+  /**
+   * 增减内层容器数量
+   */
+  const setRingCount = (count: number) => {
+    const rings = config.rings.slice(0, count);
+    while (rings.length < count) {
+      rings.push(createRing(rings.length, config.shape));
+    }
+    onConfigChange({ rings });
+  };
+
+  /**
+   * 修改单个内层容器
+   */
+  const updateRing = (index: number, changes: Partial<ContainerRing>) => {
+    onConfigChange({
+      rings: config.rings.map((ring, i) => (i === index ? { ...ring, ...changes } : ring)),
+    });
+  };
+
+  /**
+   * 应用输入的自定义顶点
+   */
+  const applyPointsInput = () => {
+    const points = parseShapePoints(pointsInput);
+    if (!points) {
+      setPointsError('至少需要 3 个 "x,y" 格式的顶点');
+      return;
+    }
+    setPointsError(null);
+    changeShape({ kind: 'custom', name: 'custom', points });
+  };
+
+  /**
+   * 应用输入的种子（非数字会被哈希成种子）
+   */
+  const applySeedInput = () => {
+    const parsed = parseSeed(seedInput);
+    if (parsed !== null) {
+      onSeedChange(parsed);
+    }
+  };
+
+  /**
+   * 更新音效设置
+   */
+  useEffect(() => {
+    audioManager.setEnabled(soundEnabled);
+    audioManager.setMasterVolume(soundVolume);
+  }, [soundEnabled, soundVolume]);
+
+  return (
+    <div className="control-panel">
+      <h3>控制面板</h3>
+      
+      <div className="control-group">
+        <button onClick={onTogglePause} className="control-button">
+          {isPaused ? '继续' : '暂停'}
+        </button>
+        <button onClick={onResetBall} className="control-button">
+          重置小球
+        </button>
+        <button 
+          onClick={onAddBall} 
+          className="control-button" 
+          disabled={ballCount >= MAX_BALLS}
+        >
+          添加小球 ({ballCount}/{MAX_BALLS})
+        </button>
+      </div>
+      
+      <div className="control-group">
+        <label>
+          游戏模式:
+          <select
+            className="shape-select"
+            value={config.mode}
+            onChange={(e) => onConfigChange({ mode: e.target.value as GameMode })}
+          >
+            {Object.values(GameMode).map((mode) => (
+              <option
+                key={mode}
+                value={mode}
+                disabled={mode === GameMode.PINBALL && !supportsPinball(config.shape)}
+              >
+                {GAME_MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {config.mode === GameMode.ESCAPE && (
+        <div className="control-group sub-controls">
+          <label>
+            出口数量:
+            <input
+              type="range"
+              min="1"
+              max="3"
+              step="1"
+              value={config.escapeGaps.edges.length}
+              onChange={(e) => onConfigChange({
+                escapeGaps: {
+                  ...config.escapeGaps,
+                  edges: spreadGapEdges(getShapeSides(config.shape), parseInt(e.target.value)),
+                },
+              })}
+            />
+            <span>{config.escapeGaps.edges.length}</span>
+          </label>
+          <label>
+            出口宽度:
+            <input
+              type="range"
+              min="20"
+              max="120"
+              step="5"
+              value={config.escapeGaps.width}
+              onChange={(e) => onConfigChange({
+                escapeGaps: { ...config.escapeGaps, width: parseInt(e.target.value) },
+              })}
+            />
+            <span>{config.escapeGaps.width}px</span>
+          </label>
+        </div>
+      )}
+      
+      <div className="control-group">
+        <label>
+          旋转速度:
+          <input
+            type="range"
+            min="0"
+            max={MAX_ROTATION_SPEED}
+            step="0.1"
+            value={config.rotationSpeed}
+            onChange={(e) => onConfigChange({ rotationSpeed: parseFloat(e.target.value) })}
+          />
+          <span>{config.rotationSpeed.toFixed(1)} rad/s</span>
+        </label>
+      </div>
+      
+      <div className="control-group">
+        <label>
+          物理子步数:
+          <input
+            type="range"
+            min="1"
+            max="8"
+            step="1"
+            value={config.substeps}
+            onChange={(e) => onConfigChange({ substeps: parseInt(e.target.value) })}
+          />
+          <span>{config.substeps}</span>
+        </label>
+      </div>
+      
+      <div className="control-group">
+        <label>
+          容器形状:
+          <select
+            className="shape-select"
+            value={shapeSelection}
+            onChange={(e) => selectShape(e.target.value)}
+          >
+            <option value="regular">正多边形</option>
+            {Object.entries(SHAPE_PRESETS).map(([name, preset]) => (
+              <option
+                key={name}
+                value={name}
+                disabled={isPinball && !supportsPinball({ kind: 'custom', name, points: preset.points })}
+              >
+                {preset.label}
+              </option>
+            ))}
+            <option value="custom" disabled={isPinball}>自定义</option>
+          </select>
+        </label>
+      </div>
+
+      {config.shape.kind === 'regular' && (
+        <div className="control-group">
+          <label>
+            边数:
+            <input
+              type="range"
+              min={isPinball ? PINBALL_MIN_SIDES : MIN_SIDES}
+              max={MAX_SIDES}
+              step="1"
+              value={config.shape.sides}
+              onChange={(e) => changeShape({ kind: 'regular', sides: parseInt(e.target.value) })}
+            />
+            <span>{config.shape.sides}</span>
+          </label>
+        </div>
+      )}
+
+      {shapeSelection === 'custom' && (
+        <div className="control-group">
+          <label>
+            顶点 (每行 x,y，凹凸均可):
+          </label>
+          <textarea
+            className="shape-points"
+            rows={5}
+            value={pointsInput}
+            onChange={(e) => setPointsInput(e.target.value)}
+          />
+          <button onClick={applyPointsInput} className="control-button">
+            应用顶点
+          </button>
+          {pointsError && <div className="replay-error">{pointsError}</div>}
+        </div>
+      )}
+      
+      <div className="control-group">
+        <label>
+          容器大小:
+          <input
+            type="range"
+            min="100"
+            max="280"
+            step="10"
+            value={config.containerRadius}
+            onChange={(e) => onConfigChange({ containerRadius: parseInt(e.target.value) })}
+          />
+          <span>{config.containerRadius}px</span>
+        </label>
+      </div>
+
+      <div className="control-group">
+        <label>墙面类型:</label>
+        <div className="sub-controls">
+          {Array.from({ length: getShapeSides(config.shape) }, (_, index) => {
+            const behavior = getEdgeBehavior(config.edgeBehaviors, index);
+            return (
+              <label key={index}>
+                <span style={{ color: `rgb(${EDGE_BEHAVIOR_STYLES[behavior].color})` }}>边 {index + 1}:</span>
+                <select
+                  className="shape-select"
+                  value={behavior}
+                  onChange={(e) => updateEdgeBehavior(index, e.target.value as EdgeBehavior)}
+                >
+                  {Object.values(EdgeBehavior).map((option) => (
+                    <option key={option} value={option}>{EDGE_BEHAVIOR_STYLES[option].label}</option>
+                  ))}
+                </select>
+              </label>
+            );
+          })}
+          {config.edgeBehaviors.some((behavior) => behavior !== EdgeBehavior.NORMAL) && (
+            <button onClick={() => onConfigChange({ edgeBehaviors: [] })} className="control-button">
+              全部恢复普通
+            </button>
+          )}
+        </div>
+      </div>
+      
+      <div className="control-group">
+        <label>
+          内层容器:
+          <input
+            type="range"
+            min="0"
+            max={MAX_RINGS}
+            step="1"
+            value={config.rings.length}
+            onChange={(e) => setRingCount(parseInt(e.target.value))}
+          />
+          <span>{config.rings.length}</span>
+        </label>
+      </div>
+
+      {config.rings.map((ring, index) => (
+        <div className="control-group sub-controls" key={index}>
+          <label>
+            第 {index + 1} 层转速:
+            <input
+              type="range"
+              min="-6"
+              max="6"
+              step="0.1"
+              value={ring.rotationSpeed}
+              onChange={(e) => updateRing(index, { rotationSpeed: parseFloat(e.target.value) })}
+            />
+            <span>{ring.rotationSpeed.toFixed(1)} rad/s {ring.rotationSpeed < 0 ? '↺' : '↻'}</span>
+          </label>
+          <label>
+            第 {index + 1} 层缺口:
+            <input
+              type="range"
+              min="0"
+              max="4"
+              step="1"
+              value={ring.gaps.edges.length}
+              onChange={(e) => updateRing(index, {
+                gaps: { ...ring.gaps, edges: spreadGapEdges(getShapeSides(config.shape), parseInt(e.target.value)) },
+              })}
+            />
+            <span>{ring.gaps.edges.length} 个 / {ring.gaps.width}px</span>
+          </label>
+          <label>
+            缺口宽度:
+            <input
+              type="range"
+              min="10"
+              max="120"
+              step="5"
+              value={ring.gaps.width}
+              onChange={(e) => updateRing(index, { gaps: { ...ring.gaps, width: parseInt(e.target.value) } })}
+            />
+          </label>
+        </div>
+      ))}
+      
+      <div className="control-group">
+        <label>
+          新球大小:
+          <input
+            type="range"
+            min="4"
+            max="20"
+            step="1"
+            value={config.ballRadius}
+            onChange={(e) => onConfigChange({ ballRadius: parseInt(e.target.value) })}
+          />
+          <span>{config.ballRadius}px</span>
+        </label>
+      </div>
+
+      <div className="control-group">
+        <label>
+          新球材质:
+          <select
+            className="shape-select"
+            value={config.material}
+            onChange={(e) => onConfigChange({ material: e.target.value as MaterialId })}
+          >
+            {Object.values(MaterialId).map((id) => (
+              <option key={id} value={id}>{MATERIALS[id].label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="control-group">
+        <label>
+          重力模式:
+          <select
+            className="shape-select"
+            value={config.gravity.mode}
+            onChange={(e) => updateGravity({ mode: e.target.value as GravityMode })}
+          >
+            <option value={GravityMode.FIXED}>固定方向</option>
+            <option value={GravityMode.ATTRACT}>指向中心</option>
+            <option value={GravityMode.REPEL}>背离中心</option>
+            <option value={GravityMode.FRAME}>随容器旋转</option>
+            <option value={GravityMode.ZERO}>失重</option>
+          </select>
+        </label>
+      </div>
+
+      {config.gravity.mode !== GravityMode.ZERO && (
+        <div className="control-group sub-controls">
+          <label>
+            重力大小:
+            <input
+              type="range"
+              min="0"
+              max="1500"
+              step="50"
+              value={config.gravity.strength}
+              onChange={(e) => updateGravity({ strength: parseInt(e.target.value) })}
+            />
+            <span>{config.gravity.strength} px/s²</span>
+          </label>
+          {(config.gravity.mode === GravityMode.FIXED || config.gravity.mode === GravityMode.FRAME) && (
+            <label>
+              重力方向:
+              <input
+                type="range"
+                min="-180"
+                max="180"
+                step="5"
+                value={Math.round((config.gravity.angle * 180) / Math.PI)}
+                onChange={(e) => updateGravity({ angle: (parseInt(e.target.value) * Math.PI) / 180 })}
+              />
+              <span>{Math.round((config.gravity.angle * 180) / Math.PI)}°</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      <div className="control-group">
+        <label>
+          马格努斯效应:
+          <input
+            type="checkbox"
+            checked={config.magnusEffect}
+            onChange={(e) => onConfigChange({ magnusEffect: e.target.checked })}
+          />
+          <span>{config.magnusEffect ? '开启' : '关闭'}</span>
+        </label>
+      </div>
+
+      <div className="control-group">
+        <label>物理参数:</label>
+        <div className="sub-controls">
+          {PHYSICS_SLIDERS.map(({ key, label, min, max, step }) => (
+            <label key={key}>
+              {label}:
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={config.physics[key]}
+                onChange={(e) => updatePhysics(key, parseFloat(e.target.value))}
+              />
+              <span>{config.physics[key]}</span>
+            </label>
+          ))}
+          <button onClick={resetPhysics} className="control-button">
+            恢复默认
+          </button>
+        </div>
+      </div>
+
+      <div className="control-group">
+        <label>
+          音效开关:
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '8px' }}>
+            <button 
+              onClick={() => setSoundEnabled(!soundEnabled)}
+              className={`control-button ${soundEnabled ? '' : 'disabled'}`}
+              style={{ 
+                background: soundEnabled 
+                  ? 'linear-gradient(135deg, #00ff88, #00cc6a)' 
+                  : 'linear-gradient(135deg, #666, #555)',
+                minWidth: '80px'
+              }}
+            >
+              {soundEnabled ? '🔊 开启' : '🔇 关闭'}
+            </button>
+          </div>
+        </label>
+      </div>
+
+      {soundEnabled && (
+        <div className="control-group">
+          <label>
+            音效音量:
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.1"
+              value={soundVolume}
+              onChange={(e) => setSoundVolume(parseFloat(e.target.value))}
+            />
+            <span>{Math.round(soundVolume * 100)}%</span>
+          </label>
+        </div>
+      )}
+
+      <div className="control-group">
+        <label>
+          随机种子:
+          <span>{seed}</span>
+        </label>
+        <div className="seed-controls">
+          <input
+            type="text"
+            className="seed-input"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && applySeedInput()}
+          />
+          <button onClick={applySeedInput} className="control-button">
+            应用
+          </button>
+          <button onClick={() => onSeedChange(createSeed())} className="control-button">
+            随机
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ControlPanel;
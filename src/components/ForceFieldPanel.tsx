@@ -0,0 +1,167 @@
+import React from 'react';
+import { FORCE_FIELD_STYLES, FieldFalloff, ForceFieldType } from '../utils/forceFields';
+import type { ForceField } from '../utils/forceFields';
+
+/**
+ * 力场面板属性接口
+ */
+interface ForceFieldPanelProps {
+  fields: ForceField[];
+  selectedId: number | null;
+  placementType: ForceFieldType;
+  disabled: boolean;
+  onPlacementTypeChange: (type: ForceFieldType) => void;
+  onSelect: (id: number | null) => void;
+  onUpdate: (id: number, changes: Partial<ForceField>) => void;
+  onDelete: (id: number) => void;
+  onClear: () => void;
+}
+
+/**
+ * 衰减方式的显示名称
+ */
+const FALLOFF_LABELS: Record<FieldFalloff, string> = {
+  [FieldFalloff.NONE]: '无衰减',
+  [FieldFalloff.LINEAR]: '线性',
+  [FieldFalloff.QUADRATIC]: '平方',
+};
+
+/**
+ * 力场面板组件 - 选择放置类型，编辑、删除已放置的力场
+ */
+const ForceFieldPanel: React.FC<ForceFieldPanelProps> = ({
+  fields,
+  selectedId,
+  placementType,
+  disabled,
+  onPlacementTypeChange,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onClear,
+}) => {
+  const selected = fields.find((field) => field.id === selectedId) ?? null;
+
+  return (
+    <div className="control-panel force-field-panel">
+      <h3>力场</h3>
+
+      <div className="control-group">
+        <label>
+          右键放置:
+          <select
+            className="shape-select"
+            value={placementType}
+            onChange={(e) => onPlacementTypeChange(e.target.value as ForceFieldType)}
+          >
+            {Object.values(ForceFieldType).map((type) => (
+              <option key={type} value={type}>{FORCE_FIELD_STYLES[type].label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {fields.length > 0 && (
+        <div className="control-group">
+          <div className="field-list">
+            {fields.map((field) => (
+              <button
+                key={field.id}
+                className={`field-chip ${field.id === selectedId ? 'selected' : ''}`}
+                style={{ borderColor: `rgb(${FORCE_FIELD_STYLES[field.type].color})` }}
+                onClick={() => onSelect(field.id === selectedId ? null : field.id)}
+              >
+                {FORCE_FIELD_STYLES[field.type].label} #{field.id}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {selected && (
+        <div className="control-group sub-controls">
+          <label>
+            类型:
+            <select
+              className="shape-select"
+              value={selected.type}
+              disabled={disabled}
+              onChange={(e) => onUpdate(selected.id, { type: e.target.value as ForceFieldType })}
+            >
+              {Object.values(ForceFieldType).map((type) => (
+                <option key={type} value={type}>{FORCE_FIELD_STYLES[type].label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            强度:
+            <input
+              type="range"
+              min={selected.type === ForceFieldType.VORTEX ? -2000 : 0}
+              max="2000"
+              step="50"
+              value={selected.strength}
+              disabled={disabled}
+              onChange={(e) => onUpdate(selected.id, { strength: parseInt(e.target.value) })}
+            />
+            <span>{selected.strength} px/s²</span>
+          </label>
+          <label>
+            半径:
+            <input
+              type="range"
+              min="20"
+              max="300"
+              step="5"
+              value={selected.radius}
+              disabled={disabled}
+              onChange={(e) => onUpdate(selected.id, { radius: parseInt(e.target.value) })}
+            />
+            <span>{selected.radius}px</span>
+          </label>
+          <label>
+            衰减:
+            <select
+              className="shape-select"
+              value={selected.falloff}
+              disabled={disabled}
+              onChange={(e) => onUpdate(selected.id, { falloff: e.target.value as FieldFalloff })}
+            >
+              {Object.values(FieldFalloff).map((falloff) => (
+                <option key={falloff} value={falloff}>{FALLOFF_LABELS[falloff]}</option>
+              ))}
+            </select>
+          </label>
+          {selected.type === ForceFieldType.WIND && (
+            <label>
+              风向:
+              <input
+                type="range"
+                min="-180"
+                max="180"
+                step="5"
+                value={Math.round((selected.angle * 180) / Math.PI)}
+                disabled={disabled}
+                onChange={(e) => onUpdate(selected.id, { angle: (parseInt(e.target.value) * Math.PI) / 180 })}
+              />
+              <span>{Math.round((selected.angle * 180) / Math.PI)}°</span>
+            </label>
+          )}
+          <button onClick={() => onDelete(selected.id)} className="control-button" disabled={disabled}>
+            删除力场
+          </button>
+        </div>
+      )}
+
+      {fields.length > 0 && (
+        <div className="control-group">
+          <button onClick={onClear} className="control-button" disabled={disabled}>
+            清除全部力场
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForceFieldPanel;
@@ -1,427 +1,240 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { createBall, updateBallPhysics, handleWallCollision, Vector } from '../utils/physics';
-import type { Ball } from '../utils/physics';
-import { 
-  checkHexagonCollision, 
-  generateHexagonVertices, 
-  constrainBallInsideHexagon 
-} from '../utils/collision';
+import { Vector } from '../utils/physics';
+import type { Ball, Vector2D } from '../utils/physics';
 import ParticleSystem from './ParticleSystem';
 import StatsPanel from './StatsPanel';
+import ControlPanel from './ControlPanel';
+import ReplayPanel from './ReplayPanel';
+import ForceFieldPanel from './ForceFieldPanel';
+import ObstaclePanel from './ObstaclePanel';
+import LeaderboardPanel from './LeaderboardPanel';
+import AchievementPanel from './AchievementPanel';
 import audioManager, { SoundType } from '../utils/audio';
+import { FIXED_TIMESTEP, MAX_FRAME_TIME } from '../utils/timestep';
+import { RandomService, RandomStream } from '../utils/random';
+import { Simulation } from '../simulation/Simulation';
+import { DEFAULT_CONFIG, GameMode } from '../simulation/types';
+import type { SimulationConfig } from '../simulation/types';
+import { 
+  ReplayPlayer, 
+  ReplayRecorder, 
+  applyInput, 
+  parseReplay, 
+  serializeReplay 
+} from '../simulation/replay';
+import type { ReplayFile, SimulationInput } from '../simulation/replay';
+import { downloadText } from '../utils/download';
+import { createForceField, findFieldAt, ForceFieldType } from '../utils/forceFields';
+import type { ForceField } from '../utils/forceFields';
+import { EDGE_BEHAVIOR_STYLES, EdgeBehavior } from '../utils/edgeBehaviors';
+import {
+  BUMPER_FLASH_DURATION,
+  ObstacleType,
+  createObstacle,
+  findObstacleAt,
+  toObstacleOffset,
+} from '../utils/obstacles';
+import type { Obstacle } from '../utils/obstacles';
+import { FlipperSide, PINBALL_LIVES } from '../utils/flippers';
+import { POWER_UP_RADIUS } from '../utils/bricks';
+import { ChallengePhase, getChallengeScore, getChallengeTimeLeft } from '../simulation/challenges';
+import { ScoringEngine } from '../simulation/scoring';
+import {
+  addSession,
+  getConfigFingerprint,
+  loadLeaderboard,
+  mergeLeaderboards,
+  parseLeaderboard,
+  saveLeaderboard,
+  serializeLeaderboard,
+} from '../simulation/leaderboard';
+import type { Leaderboard, SessionResult } from '../simulation/leaderboard';
+import { SessionTracker } from '../simulation/session';
+import { AchievementTracker, TOAST_DURATION, loadAchievements, saveAchievements } from '../simulation/achievements';
+import type { Achievement, AchievementToast, UnlockedAchievements } from '../simulation/achievements';
+import { TimeSeriesRecorder } from '../simulation/timeSeries';
+import { CollisionHeatmap, HeatmapFrame } from '../simulation/heatmap';
+import { subscribeAudio } from '../consumers/audio';
+import {
+  drawAchievementToast,
+  drawBackground,
+  drawBall,
+  drawBrick,
+  drawChallengeOverlay,
+  drawContainer,
+  drawFlipper,
+  drawForceField,
+  drawHeatmap,
+  drawObstacle,
+  drawPowerUp,
+  drawScorePopup,
+  drawTarget,
+} from '../render/scene';
+import type { TrailPoint } from '../render/scene';
 
 /**
- * 游戏配置接口
+ * 点击时施加的冲击力大小
  */
-interface GameConfig {
-  canvasWidth: number;
-  canvasHeight: number;
-  hexagonRadius: number;
-  rotationSpeed: number;
-  ballRadius: number;
-}
+const CLICK_IMPULSE = 300;
 
 /**
- * 默认游戏配置
+ * 挡板按键：左右方向键或 Z 和 /
  */
-const DEFAULT_CONFIG: GameConfig = {
-  canvasWidth: 600,
-  canvasHeight: 600,
-  hexagonRadius: 200,
-  rotationSpeed: 0.02,
-  ballRadius: 8,
+const FLIPPER_KEYS: Record<string, FlipperSide> = {
+  ArrowLeft: FlipperSide.LEFT,
+  z: FlipperSide.LEFT,
+  Z: FlipperSide.LEFT,
+  ArrowRight: FlipperSide.RIGHT,
+  '/': FlipperSide.RIGHT,
 };
 
 /**
- * 游戏控制面板组件
+ * 碰撞粒子爆发的样式
  */
-interface ControlPanelProps {
-  config: GameConfig;
-  isPaused: boolean;
-  onConfigChange: (config: Partial<GameConfig>) => void;
-  onTogglePause: () => void;
-  onResetBall: () => void;
+interface ParticleBurst {
+  count: number;
+  speed: number; // 粒子初速度下限 (pixels/s)，实际在此基础上随机增加
+  colors: string[];
 }
 
-const ControlPanel: React.FC<ControlPanelProps> = ({
-  config,
-  isPaused,
-  onConfigChange,
-  onTogglePause,
-  onResetBall,
-}) => {
-  const [soundEnabled, setSoundEnabled] = useState(true);
-  const [soundVolume, setSoundVolume] = useState(0.5);
+/**
+ * 墙面和小球碰撞的默认粒子
+ */
+const DEFAULT_BURST: ParticleBurst = { count: 8, speed: 150, colors: ['#ff6b6b', '#00ff88'] };
 
-  /**
-   * 更新音效设置
-   */
-  useEffect(() => {
-    audioManager.setEnabled(soundEnabled);
-    audioManager.setMasterVolume(soundVolume);
-  }, [soundEnabled, soundVolume]);
+/**
+ * 各类障碍物被撞时的粒子
+ */
+const OBSTACLE_BURSTS: Record<ObstacleType, ParticleBurst> = {
+  [ObstacleType.PEG]: { count: 6, speed: 90, colors: ['#c8c8ff', '#ffffff'] },
+  [ObstacleType.BAR]: { count: 10, speed: 120, colors: ['#ffaa3c', '#ffe0a0'] },
+  [ObstacleType.BUMPER]: { count: 18, speed: 260, colors: ['#ff3ca0', '#ffd700', '#ffffff'] },
+};
 
-  return (
-    <div className="control-panel">
-      <h3>控制面板</h3>
-      
-      <div className="control-group">
-        <button onClick={onTogglePause} className="control-button">
-          {isPaused ? '继续' : '暂停'}
-        </button>
-        <button onClick={onResetBall} className="control-button">
-          重置小球
-        </button>
-      </div>
-      
-      <div className="control-group">
-        <label>
-          旋转速度:
-          <input
-            type="range"
-            min="0"
-            max="0.1"
-            step="0.001"
-            value={config.rotationSpeed}
-            onChange={(e) => onConfigChange({ rotationSpeed: parseFloat(e.target.value) })}
-          />
-          <span>{config.rotationSpeed.toFixed(3)}</span>
-        </label>
-      </div>
-      
-      <div className="control-group">
-        <label>
-          六边形大小:
-          <input
-            type="range"
-            min="100"
-            max="280"
-            step="10"
-            value={config.hexagonRadius}
-            onChange={(e) => onConfigChange({ hexagonRadius: parseInt(e.target.value) })}
-          />
-          <span>{config.hexagonRadius}px</span>
-        </label>
-      </div>
-      
-      <div className="control-group">
-        <label>
-          小球大小:
-          <input
-            type="range"
-            min="4"
-            max="20"
-            step="1"
-            value={config.ballRadius}
-            onChange={(e) => onConfigChange({ ballRadius: parseInt(e.target.value) })}
-          />
-          <span>{config.ballRadius}px</span>
-        </label>
-      </div>
+/**
+ * 砖块被打碎时的碎片
+ */
+const BRICK_BURST: ParticleBurst = { count: 14, speed: 60, colors: ['#ffd250', '#ff7850', '#c850ff'] };
 
-      <div className="control-group">
-        <label>
-          音效开关:
-          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '8px' }}>
-            <button 
-              onClick={() => setSoundEnabled(!soundEnabled)}
-              className={`control-button ${soundEnabled ? '' : 'disabled'}`}
-              style={{ 
-                background: soundEnabled 
-                  ? 'linear-gradient(135deg, #00ff88, #00cc6a)' 
-                  : 'linear-gradient(135deg, #666, #555)',
-                minWidth: '80px'
-              }}
-            >
-              {soundEnabled ? '🔊 开启' : '🔇 关闭'}
-            </button>
-          </div>
-        </label>
-      </div>
+/**
+ * 命中目标时的粒子
+ */
+const TARGET_BURST: ParticleBurst = { count: 20, speed: 180, colors: ['#ffdc3c', '#ffffff'] };
 
-      {soundEnabled && (
-        <div className="control-group">
-          <label>
-            音效音量:
-            <input
-              type="range"
-              min="0"
-              max="1"
-              step="0.1"
-              value={soundVolume}
-              onChange={(e) => setSoundVolume(parseFloat(e.target.value))}
-            />
-            <span>{Math.round(soundVolume * 100)}%</span>
-          </label>
-        </div>
-      )}
-    </div>
-  );
-};
+/**
+ * 主游戏组件属性接口
+ */
+interface HexagonBounceProps {
+  seed: number;
+  onSeedChange: (seed: number) => void;
+}
 
 /**
- * 主游戏组件
+ * 主游戏组件 - 负责输入和渲染，物理模拟由 Simulation 完成
+ * 
+ * 所有随机性都来自由 seed 派生的随机数服务，相同种子的会话可以完全复现。
  */
-const HexagonBounce: React.FC = () => {
+const HexagonBounce: React.FC<HexagonBounceProps> = ({ seed, onSeedChange }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>(0);
   const lastTimeRef = useRef<number>(0);
-  const rotationRef = useRef<number>(0);
-  const ballTrailRef = useRef<{ x: number; y: number; alpha: number }[]>([]);
+  const ballTrailsRef = useRef<Map<number, TrailPoint[]>>(new Map());
   const collisionEffectsRef = useRef<{ x: number; y: number; life: number; maxLife: number; particles: { x: number; y: number; vx: number; vy: number; life: number; color: string }[] }[]>([]);
   const collisionCountRef = useRef<number>(0);
+  const bumperHitsRef = useRef<Map<number, number>>(new Map()); // 弹射器 id -> 最近一次被撞的时间 (ms)
+  const draggingFieldRef = useRef<number | null>(null); // 正在拖动的力场
+  const suppressClickRef = useRef<boolean>(false); // 点中或拖动力场后不触发点击冲量
+  const achievementToastsRef = useRef<AchievementToast[]>([]); // 排队显示的成就解锁提示
   
-  // 游戏状态
-  const [config, setConfig] = useState<GameConfig>(DEFAULT_CONFIG);
-  const [ball, setBall] = useState<Ball>(() => 
-    createBall(
-      config.canvasWidth / 2,
-      config.canvasHeight / 2 - 50,
-      config.ballRadius
-    )
+  // 随机数服务和物理模拟核心
+  const [random] = useState(() => new RandomService(seed));
+  const [simulation] = useState(() => new Simulation(
+    DEFAULT_CONFIG,
+    random.stream(RandomStream.SIMULATION)
+  ));
+  
+  // 由碰撞事件驱动的计分引擎
+  const [scoring] = useState(() => new ScoringEngine());
+  
+  // 实时模拟每一局的成绩统计
+  const [sessionTracker] = useState(() => new SessionTracker(simulation));
+  
+  // 统计面板图表的历史采样
+  const [timeSeries] = useState(() => new TimeSeriesRecorder());
+  
+  // 撞击分布统计和热力图显示
+  const [heatmap, setHeatmap] = useState(() => new CollisionHeatmap());
+  const [showHeatmap, setShowHeatmap] = useState<boolean>(false);
+  const [heatmapFrame, setHeatmapFrame] = useState<HeatmapFrame>(HeatmapFrame.LOCAL);
+  
+  // 成就进度和本地保存的解锁记录
+  const [achievementTracker] = useState(() => new AchievementTracker(loadAchievements()));
+  const [unlockedAchievements, setUnlockedAchievements] = useState<UnlockedAchievements>(
+    () => achievementTracker.getUnlocked()
   );
+  
+  // 游戏状态
+  const [config, setConfig] = useState<SimulationConfig>(() => simulation.getConfig());
+  const [balls, setBalls] = useState<Ball[]>(() => simulation.getBalls()); // 用于面板展示的小球快照
   const [isPaused, setIsPaused] = useState<boolean>(false);
-
-  /**
-   * 绘制增强版六边形（带霓虹灯光效果）
-   */
-  const drawHexagon = useCallback((
-    ctx: CanvasRenderingContext2D,
-    centerX: number,
-    centerY: number,
-    radius: number,
-    rotation: number
-  ) => {
-    const vertices = generateHexagonVertices(centerX, centerY, radius, rotation);
-    
-    // 绘制外层发光效果
-    for (let i = 3; i >= 0; i--) {
-      const glowRadius = radius + i * 8;
-      const glowVertices = generateHexagonVertices(centerX, centerY, glowRadius, rotation);
-      
-      ctx.beginPath();
-      ctx.moveTo(glowVertices[0].x, glowVertices[0].y);
-      
-      for (let j = 1; j < glowVertices.length; j++) {
-        ctx.lineTo(glowVertices[j].x, glowVertices[j].y);
-      }
-      ctx.closePath();
-      
-      // 渐变发光效果
-      const alpha = (0.15 - i * 0.03) * (0.8 + Math.sin(Date.now() * 0.003) * 0.2);
-      ctx.strokeStyle = `rgba(0, 255, 136, ${alpha})`;
-      ctx.lineWidth = 2 + i;
-      ctx.shadowColor = '#00ff88';
-      ctx.shadowBlur = 15 + i * 5;
-      ctx.stroke();
-    }
-    
-    // 重置阴影
-    ctx.shadowColor = 'transparent';
-    ctx.shadowBlur = 0;
-    
-    ctx.beginPath();
-    ctx.moveTo(vertices[0].x, vertices[0].y);
-    
-    for (let i = 1; i < vertices.length; i++) {
-      ctx.lineTo(vertices[i].x, vertices[i].y);
-    }
-    
-    ctx.closePath();
-    
-    // 绘制主要六边形轮廓（带脉冲效果）
-    const pulseIntensity = 0.8 + Math.sin(Date.now() * 0.005) * 0.3;
-    ctx.strokeStyle = `rgba(0, 255, 136, ${pulseIntensity})`;
-    ctx.lineWidth = 4;
-    ctx.shadowColor = '#00ff88';
-    ctx.shadowBlur = 20;
-    ctx.stroke();
-    
-    // 重置阴影
-    ctx.shadowColor = 'transparent';
-    ctx.shadowBlur = 0;
-    
-    // 添加内部渐变背景
-    const gradient = ctx.createRadialGradient(
-      centerX, centerY, 0,
-      centerX, centerY, radius
-    );
-    gradient.addColorStop(0, 'rgba(0, 255, 136, 0.08)');
-    gradient.addColorStop(0.7, 'rgba(0, 255, 136, 0.04)');
-    gradient.addColorStop(1, 'rgba(0, 255, 136, 0.01)');
-    
-    ctx.fillStyle = gradient;
-    ctx.fill();
-    
-    // 绘制六边形顶点的装饰效果
-    vertices.forEach((vertex) => {
-      ctx.beginPath();
-      ctx.arc(vertex.x, vertex.y, 3, 0, Math.PI * 2);
-      ctx.fillStyle = `rgba(0, 255, 136, ${pulseIntensity * 0.8})`;
-      ctx.shadowColor = '#00ff88';
-      ctx.shadowBlur = 8;
-      ctx.fill();
-    });
-    
-    // 重置阴影
-    ctx.shadowColor = 'transparent';
-    ctx.shadowBlur = 0;
-  }, []);
+  
+  // 输入录制（从会话开始自动录制）和回放
+  const [recorder, setRecorder] = useState(() => new ReplayRecorder(simulation, seed));
+  const [replayPlayer, setReplayPlayer] = useState<ReplayPlayer | null>(null);
+  const [replayTick, setReplayTick] = useState<number>(0);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  
+  // 逃脱模式的成绩
+  const [lastEscapeTime, setLastEscapeTime] = useState<number | null>(null);
+  const [bestEscapeTime, setBestEscapeTime] = useState<number | null>(null);
+  
+  // 弹球模式的生命数
+  const [lives, setLives] = useState<number>(() => simulation.getLives());
+  
+  // 本地保存的排行榜和各模式最佳记录
+  const [leaderboard, setLeaderboard] = useState<Leaderboard>(() => loadLeaderboard());
+  const [leaderboardError, setLeaderboardError] = useState<string | null>(null);
+  const leaderboardRef = useRef<Leaderboard>(leaderboard);
+  
+  // 力场编辑
+  const [placementType, setPlacementType] = useState<ForceFieldType>(ForceFieldType.ATTRACTOR);
+  const [selectedFieldId, setSelectedFieldId] = useState<number | null>(null);
+  
+  // 障碍物编辑
+  const [obstacleType, setObstacleType] = useState<ObstacleType>(ObstacleType.PEG);
+  const [obstacleRotating, setObstacleRotating] = useState<boolean>(true);
+  const [selectedObstacleId, setSelectedObstacleId] = useState<number | null>(null);
+  
+  // 回放时渲染回放模拟，否则渲染实时模拟
+  const activeSimulation = replayPlayer ? replayPlayer.simulation : simulation;
+  
+  // 视觉特效和音调使用独立的随机数流，不影响物理模拟
+  const effectsRandom = random.stream(RandomStream.EFFECTS);
   
   /**
-   * 绘制增强版小球（带拖尾和发光效果）
+   * 音效噪声使用会话种子生成
    */
-  const drawBall = useCallback((
-    ctx: CanvasRenderingContext2D,
-    ballState: Ball
-  ) => {
-    const { position, radius, velocity } = ballState;
-    
-    // 更新拖尾
-    ballTrailRef.current.unshift({ x: position.x, y: position.y, alpha: 1.0 });
-    
-    // 限制拖尾长度
-    const maxTrailLength = 15;
-    if (ballTrailRef.current.length > maxTrailLength) {
-      ballTrailRef.current = ballTrailRef.current.slice(0, maxTrailLength);
-    }
-    
-    // 更新拖尾透明度
-    ballTrailRef.current.forEach((point, index) => {
-      point.alpha = 1.0 - (index / maxTrailLength);
-    });
-    
-    // 绘制拖尾
-    ballTrailRef.current.forEach((point, index) => {
-      if (index === 0) return; // 跳过当前位置
-      
-      const trailRadius = radius * (1 - index / maxTrailLength) * 0.8;
-      const alpha = point.alpha * 0.6;
-      
-      if (trailRadius > 0.5 && alpha > 0.05) {
-        ctx.save();
-        ctx.globalAlpha = alpha;
-        
-        // 拖尾渐变
-        const trailGradient = ctx.createRadialGradient(
-          point.x, point.y, 0,
-          point.x, point.y, trailRadius * 2
-        );
-        trailGradient.addColorStop(0, '#ff6b6b');
-        trailGradient.addColorStop(0.5, '#ee5a24');
-        trailGradient.addColorStop(1, 'transparent');
-        
-        ctx.beginPath();
-        ctx.arc(point.x, point.y, trailRadius, 0, 2 * Math.PI);
-        ctx.fillStyle = trailGradient;
-        ctx.fill();
-        
-        ctx.restore();
-      }
-    });
-    
-    // 计算速度大小用于发光强度
-    const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y);
-    const glowIntensity = Math.min(speed / 300, 1.0) * 0.8 + 0.3;
-    
-    // 绘制外层发光效果
-    for (let i = 3; i >= 0; i--) {
-      ctx.save();
-      ctx.globalAlpha = glowIntensity * (0.3 - i * 0.06);
-      
-      const glowRadius = radius + i * 6;
-      const glowGradient = ctx.createRadialGradient(
-        position.x, position.y, 0,
-        position.x, position.y, glowRadius
-      );
-      glowGradient.addColorStop(0, '#ff6b6b');
-      glowGradient.addColorStop(0.4, '#ee5a24');
-      glowGradient.addColorStop(1, 'transparent');
-      
-      ctx.beginPath();
-      ctx.arc(position.x, position.y, glowRadius, 0, 2 * Math.PI);
-      ctx.fillStyle = glowGradient;
-      ctx.fill();
-      
-      ctx.restore();
-    }
-    
-    // 绘制小球主体
-    ctx.beginPath();
-    ctx.arc(position.x, position.y, radius, 0, 2 * Math.PI);
-    
-    // 创建径向渐变
-    const gradient = ctx.createRadialGradient(
-      position.x - radius * 0.3,
-      position.y - radius * 0.3,
-      0,
-      position.x,
-      position.y,
-      radius
-    );
-    gradient.addColorStop(0, '#ffffff');
-    gradient.addColorStop(0.3, '#ff6b6b');
-    gradient.addColorStop(0.8, '#ee5a24');
-    gradient.addColorStop(1, '#c0392b');
-    
-    ctx.fillStyle = gradient;
-    
-    // 添加动态阴影效果
-    ctx.shadowColor = `rgba(238, 90, 36, ${glowIntensity})`;
-    ctx.shadowBlur = 15 + speed / 30;
-    ctx.shadowOffsetX = 3;
-    ctx.shadowOffsetY = 3;
-    
-    ctx.fill();
-    
-    // 绘制小球内部高光
-    ctx.save();
-    ctx.globalAlpha = 0.8;
-    ctx.shadowColor = 'transparent';
-    ctx.shadowBlur = 0;
-    
-    const highlightGradient = ctx.createRadialGradient(
-      position.x - radius * 0.4,
-      position.y - radius * 0.4,
-      0,
-      position.x - radius * 0.4,
-      position.y - radius * 0.4,
-      radius * 0.6
-    );
-    highlightGradient.addColorStop(0, 'rgba(255, 255, 255, 0.8)');
-    highlightGradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
-    
-    ctx.beginPath();
-    ctx.arc(position.x - radius * 0.3, position.y - radius * 0.3, radius * 0.4, 0, 2 * Math.PI);
-    ctx.fillStyle = highlightGradient;
-    ctx.fill();
-    
-    ctx.restore();
-    
-    // 重置阴影
-    ctx.shadowColor = 'transparent';
-    ctx.shadowBlur = 0;
-    ctx.shadowOffsetX = 0;
-    ctx.shadowOffsetY = 0;
-  }, []);
-  
+  useEffect(() => {
+    audioManager.setRandom(random.stream(RandomStream.AUDIO));
+  }, [random]);
+
   /**
    * 创建碰撞特效
    */
-  const createCollisionEffect = useCallback((x: number, y: number) => {
+  const createCollisionEffect = useCallback((x: number, y: number, burst: ParticleBurst = DEFAULT_BURST) => {
     const particles = [];
-    const particleCount = 8;
+    const particleCount = burst.count;
     
     for (let i = 0; i < particleCount; i++) {
       const angle = (i / particleCount) * Math.PI * 2;
-      const speed = 150 + Math.random() * 100;
+      const speed = burst.speed + effectsRandom.next() * 100;
       particles.push({
         x,
         y,
         vx: Math.cos(angle) * speed,
         vy: Math.sin(angle) * speed,
-        life: 30 + Math.random() * 20,
-        color: Math.random() > 0.5 ? '#ff6b6b' : '#00ff88',
+        life: 30 + effectsRandom.next() * 20,
+        color: burst.colors[Math.floor(effectsRandom.next() * burst.colors.length)],
       });
     }
     
@@ -432,7 +245,7 @@ const HexagonBounce: React.FC = () => {
       maxLife: 50,
       particles,
     });
-  }, []);
+  }, [effectsRandom]);
   
   /**
    * 更新和渲染碰撞特效
@@ -485,6 +298,156 @@ const HexagonBounce: React.FC = () => {
     });
   }, []);
   
+  /**
+   * 订阅模拟事件：碰撞特效、计数和界面状态
+   */
+  useEffect(() => {
+    const unsubscribers = [
+      activeSimulation.on('collision', ({ point }) => {
+        createCollisionEffect(point.x, point.y);
+        collisionCountRef.current += 1;
+      }),
+      
+      activeSimulation.on('ballCollision', ({ point }) => {
+        createCollisionEffect(point.x, point.y);
+        collisionCountRef.current += 1;
+      }),
+      
+      activeSimulation.on('obstacleHit', ({ obstacle, point }) => {
+        createCollisionEffect(point.x, point.y, OBSTACLE_BURSTS[obstacle.type]);
+        collisionCountRef.current += 1;
+        if (obstacle.type === ObstacleType.BUMPER) {
+          bumperHitsRef.current.set(obstacle.id, performance.now());
+        }
+      }),
+      
+      activeSimulation.on('flipperHit', ({ point }) => {
+        createCollisionEffect(point.x, point.y);
+        collisionCountRef.current += 1;
+      }),
+      
+      activeSimulation.on('drain', ({ ball, lives }) => {
+        createCollisionEffect(ball.position.x, ball.position.y);
+        setLives(lives);
+      }),
+      
+      activeSimulation.on('brickHit', ({ point, destroyed }) => {
+        collisionCountRef.current += 1;
+        if (destroyed) {
+          createCollisionEffect(point.x, point.y, BRICK_BURST);
+        }
+      }),
+      
+      activeSimulation.on('powerUpCollect', ({ powerUp }) => {
+        createCollisionEffect(powerUp.position.x, powerUp.position.y);
+      }),
+      
+      activeSimulation.on('escape', ({ ball, time }) => {
+        createCollisionEffect(ball.position.x, ball.position.y);
+        setLastEscapeTime(time);
+        setBestEscapeTime((best) => (best === null ? time : Math.min(best, time)));
+      }),
+      
+      activeSimulation.on('targetHit', ({ point }) => {
+        createCollisionEffect(point.x, point.y, TARGET_BURST);
+      }),
+      
+      activeSimulation.on('roundStart', () => {
+        setLives(activeSimulation.getLives());
+      }),
+      
+      // 小球被重置后清除旧的拖尾
+      activeSimulation.on('reset', () => {
+        ballTrailsRef.current.clear();
+      }),
+      
+      // 面板只展示实时模拟的配置和暂停状态（新一轮也可能改变容器大小和旋转速度）
+      activeSimulation.on('configChange', ({ config }) => {
+        if (activeSimulation === simulation) {
+          setConfig(config);
+        }
+      }),
+      
+      activeSimulation.on('pause', ({ paused }) => {
+        if (activeSimulation === simulation) {
+          setIsPaused(paused);
+        }
+      }),
+    ];
+    
+    return () => unsubscribers.forEach((off) => off());
+  }, [simulation, activeSimulation, createCollisionEffect]);
+  
+  /**
+   * 音效订阅
+   */
+  useEffect(() => subscribeAudio(activeSimulation, effectsRandom), [activeSimulation, effectsRandom]);
+  
+  /**
+   * 计分引擎订阅（切换实时模拟和回放模拟时重新计分）
+   */
+  useEffect(() => scoring.subscribe(activeSimulation), [scoring, activeSimulation]);
+  
+  /**
+   * 图表采样订阅（回放时绘制回放模拟的曲线）
+   */
+  useEffect(() => timeSeries.subscribe(activeSimulation), [timeSeries, activeSimulation]);
+  
+  /**
+   * 撞击分布订阅（回放时统计回放模拟的撞击）
+   */
+  useEffect(() => heatmap.subscribe(activeSimulation), [heatmap, activeSimulation]);
+  
+  /**
+   * 排行榜变化后写入本地存储
+   */
+  useEffect(() => {
+    leaderboardRef.current = leaderboard;
+    saveLeaderboard(leaderboard);
+  }, [leaderboard]);
+  
+  /**
+   * 记录一局成绩
+   */
+  const recordSession = useCallback((result: SessionResult) => {
+    setLeaderboard((board) => addSession(board, result));
+  }, []);
+  
+  /**
+   * 成绩统计只订阅实时模拟，回放不计入排行榜
+   */
+  useEffect(() => sessionTracker.subscribe(simulation, recordSession), [simulation, sessionTracker, recordSession]);
+  
+  /**
+   * 成就只在实时模拟中解锁；解锁后保存并在画布上排队显示提示
+   */
+  const unlockAchievement = useCallback((achievement: Achievement) => {
+    const unlocked = achievementTracker.getUnlocked();
+    saveAchievements(unlocked);
+    setUnlockedAchievements(unlocked);
+    achievementToastsRef.current.push({ achievement, age: 0 });
+  }, [achievementTracker]);
+  
+  useEffect(
+    () => achievementTracker.subscribe(simulation, unlockAchievement),
+    [simulation, achievementTracker, unlockAchievement]
+  );
+  
+  /**
+   * 关闭页面前记录进行中的一局（来不及等待状态更新，直接写入存储）
+   */
+  useEffect(() => {
+    const handleUnload = () => {
+      const result = sessionTracker.finish();
+      if (result) {
+        saveLeaderboard(addSession(leaderboardRef.current, result));
+      }
+    };
+    
+    window.addEventListener('beforeunload', handleUnload);
+    return () => window.removeEventListener('beforeunload', handleUnload);
+  }, [sessionTracker]);
+  
   /**
    * 游戏渲染循环
    */
@@ -495,198 +458,619 @@ const HexagonBounce: React.FC = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
-    // 计算时间间隔
-    const deltaTime = lastTimeRef.current === 0 
+    // 计算真实帧时间（限制最大帧时间，避免长时间挂起后卡死）
+    const frameTime = lastTimeRef.current === 0 
       ? 0 
-      : Math.min((currentTime - lastTimeRef.current) / 1000, 0.016); // 限制最大帧时间
+      : Math.min((currentTime - lastTimeRef.current) / 1000, MAX_FRAME_TIME);
     
     lastTimeRef.current = currentTime;
     
-    if (!isPaused) {
-      // 更新旋转角度
-      rotationRef.current += config.rotationSpeed;
-      
-      // 更新小球物理状态
-      setBall(prevBall => {
-        let updatedBall = updateBallPhysics(prevBall, deltaTime);
-        
-        // 更新小球半径
-        updatedBall = { ...updatedBall, radius: config.ballRadius };
-        
-        // 检测与六边形的碰撞
-        const hexagonCenter = { 
-          x: config.canvasWidth / 2, 
-          y: config.canvasHeight / 2 
-        };
-        
-        const collision = checkHexagonCollision(
-          updatedBall.position,
-          updatedBall.radius,
-          hexagonCenter,
-          config.hexagonRadius,
-          rotationRef.current
-        );
-        
-        if (collision.hasCollision) {
-          // 创建碰撞特效
-          createCollisionEffect(updatedBall.position.x, updatedBall.position.y);
-          
-          // 增加碰撞计数
-          collisionCountRef.current += 1;
-          
-          // 播放碰撞音效
-          const speed = Math.sqrt(updatedBall.velocity.x * updatedBall.velocity.x + updatedBall.velocity.y * updatedBall.velocity.y);
-          const volume = Math.min(speed / 300, 1) * 0.8 + 0.2;
-          const pitch = 0.8 + Math.random() * 0.4; // 随机音调变化
-          audioManager.playSound(SoundType.COLLISION, volume, pitch);
-          
-          updatedBall = handleWallCollision(
-            updatedBall,
-            collision.wallStart,
-            collision.wallEnd,
-            collision.distance
-          );
-        }
-        
-        return updatedBall;
-      });
+    // 按固定步长推进物理模拟（回放时推进回放模拟）
+    const steps = replayPlayer ? replayPlayer.update(frameTime) : simulation.step(frameTime);
+    if (steps > 0) {
+      setBalls(activeSimulation.getBalls());
+      if (replayPlayer) {
+        setReplayTick(replayPlayer.tick);
+      }
     }
     
+    // 推进计分时间（挑战倒计时和结束后不计静止扣分）
+    const challengePhase = activeSimulation.getChallenge()?.phase;
+    scoring.update(
+      steps * FIXED_TIMESTEP,
+      activeSimulation.getBalls(),
+      challengePhase === undefined || challengePhase === ChallengePhase.RUNNING
+    );
+    
+    // 图表采样（暂停时没有推进步数，曲线保持不动）
+    timeSeries.update(steps * FIXED_TIMESTEP, activeSimulation);
+    
+    // 统计本局成绩（挑战只计进行中的时间，挑战模式以挑战成绩为分数）
+    if (!replayPlayer) {
+      const liveChallenge = simulation.getChallenge();
+      const counting = !simulation.isGameOver() && (!liveChallenge || liveChallenge.phase === ChallengePhase.RUNNING);
+      sessionTracker.update(
+        counting ? steps * FIXED_TIMESTEP : 0,
+        simulation.getBalls(),
+        liveChallenge ? getChallengeScore(liveChallenge) : scoring.getState().score
+      );
+      achievementTracker.update(
+        simulation.isGameOver() ? 0 : steps * FIXED_TIMESTEP,
+        simulation.getBalls(),
+        simulation.getConfig().rotationSpeed
+      );
+    }
+    
+    // 回放的配置可能与当前配置不同
+    const renderConfig = activeSimulation.getConfig();
+    
     // 清空画布
-    ctx.clearRect(0, 0, config.canvasWidth, config.canvasHeight);
+    ctx.clearRect(0, 0, renderConfig.canvasWidth, renderConfig.canvasHeight);
     
     // 绘制动态渐变背景
-    const backgroundGradient = ctx.createRadialGradient(
-      config.canvasWidth / 2, config.canvasHeight / 2, 0,
-      config.canvasWidth / 2, config.canvasHeight / 2, Math.max(config.canvasWidth, config.canvasHeight) / 2
-    );
-    const time = Date.now() * 0.001;
-    const r = Math.sin(time * 0.3) * 30 + 20;
-    const g = Math.sin(time * 0.5) * 30 + 20;
-    const b = Math.sin(time * 0.7) * 30 + 30;
-    
-    backgroundGradient.addColorStop(0, `rgb(${r + 10}, ${g + 10}, ${b + 10})`);
-    backgroundGradient.addColorStop(0.5, `rgb(${r}, ${g}, ${b})`);
-    backgroundGradient.addColorStop(1, `rgb(${r - 10}, ${g - 10}, ${b - 5})`);
+    drawBackground(ctx, renderConfig.canvasWidth, renderConfig.canvasHeight);
     
-    ctx.fillStyle = backgroundGradient;
-    ctx.fillRect(0, 0, config.canvasWidth, config.canvasHeight);
+    // 插值后的渲染状态
+    const renderState = replayPlayer
+      ? replayPlayer.simulation.getRenderState(replayPlayer.alpha)
+      : simulation.getRenderState();
     
-    // 绘制六边形
-    drawHexagon(
+    // 绘制容器（内层容器按旋转方向区分颜色）
+    const center = { x: renderConfig.canvasWidth / 2, y: renderConfig.canvasHeight / 2 };
+    drawContainer(
       ctx,
-      config.canvasWidth / 2,
-      config.canvasHeight / 2,
-      config.hexagonRadius,
-      rotationRef.current
+      renderConfig.shape,
+      center,
+      renderConfig.containerRadius,
+      renderState.rotation,
+      activeSimulation.getContainerGaps(),
+      undefined,
+      renderConfig.edgeBehaviors.map((behavior) =>
+        behavior === EdgeBehavior.NORMAL ? undefined : EDGE_BEHAVIOR_STYLES[behavior].color
+      )
     );
+    renderConfig.rings.forEach((ring, index) => {
+      drawContainer(
+        ctx,
+        renderConfig.shape,
+        center,
+        renderConfig.containerRadius * ring.scale,
+        renderState.ringRotations[index],
+        ring.gaps,
+        ring.rotationSpeed >= 0 ? '0, 200, 255' : '255, 80, 200'
+      );
+    });
+    
+    // 绘制撞击热力图（在墙面之上、小球之下）
+    if (showHeatmap) {
+      drawHeatmap(
+        ctx,
+        heatmap.getCells(heatmapFrame),
+        heatmap.getMaxCount(heatmapFrame),
+        heatmapFrame,
+        center,
+        [renderState.rotation, ...renderState.ringRotations]
+      );
+    }
+    
+    // 绘制障碍物（弹射器被撞后短暂闪光）
+    renderConfig.obstacles.forEach(obstacle => {
+      const hitTime = bumperHitsRef.current.get(obstacle.id);
+      const flash = hitTime === undefined
+        ? 0
+        : Math.max(0, 1 - (performance.now() - hitTime) / (BUMPER_FLASH_DURATION * 1000));
+      drawObstacle(
+        ctx,
+        obstacle,
+        center,
+        renderState.rotation,
+        flash,
+        !replayPlayer && obstacle.id === selectedObstacleId
+      );
+    });
+    
+    // 绘制挑战目标
+    activeSimulation.getChallenge()?.targets.forEach(target => {
+      drawTarget(ctx, target, renderConfig.shape, center, renderConfig.containerRadius, renderState.rotation);
+    });
+    
+    // 绘制砖块和道具
+    activeSimulation.getBricks().forEach(brick => drawBrick(ctx, brick, center, renderState.rotation));
+    activeSimulation.getPowerUps().forEach(powerUp => drawPowerUp(ctx, powerUp, POWER_UP_RADIUS));
+    
+    // 绘制弹球挡板
+    if (renderConfig.mode === GameMode.PINBALL) {
+      [FlipperSide.LEFT, FlipperSide.RIGHT].forEach(side => {
+        drawFlipper(ctx, activeSimulation.getFlipperSegment(side), activeSimulation.isFlipperPressed(side));
+      });
+    }
+    
+    // 绘制力场
+    renderConfig.forceFields.forEach(field => {
+      drawForceField(ctx, field, !replayPlayer && field.id === selectedFieldId);
+    });
     
     // 绘制小球
-    drawBall(ctx, ball);
+    renderState.balls.forEach(ball => drawBall(ctx, ball, ballTrailsRef.current));
     
-    // 绘制碰撞特效
-    updateAndDrawCollisionEffects(ctx, deltaTime);
+    // 绘制碰撞特效和得分提示
+    updateAndDrawCollisionEffects(ctx, frameTime);
+    scoring.getState().popups.forEach(popup => drawScorePopup(ctx, popup));
     
-    // 绘制暂停提示
-    if (isPaused) {
+    // 绘制暂停或回放提示
+    if (replayPlayer) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.font = '16px Arial';
+      ctx.textAlign = 'left';
+      ctx.fillText(replayPlayer.isPlaying() ? '● 回放中' : '❚❚ 回放暂停', 16, 28);
+    } else if (isPaused) {
       ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
       ctx.font = '24px Arial';
       ctx.textAlign = 'center';
-      ctx.fillText('暂停', config.canvasWidth / 2, config.canvasHeight / 2);
+      ctx.fillText('暂停', renderConfig.canvasWidth / 2, renderConfig.canvasHeight / 2);
+    }
+    
+    if (activeSimulation.isGameOver()) {
+      ctx.fillStyle = 'rgba(255, 80, 80, 0.9)';
+      ctx.font = 'bold 32px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText('游戏结束', renderConfig.canvasWidth / 2, renderConfig.canvasHeight / 2 - 40);
+    }
+    
+    // 挑战的倒计时、计分和结算画面
+    const challenge = activeSimulation.getChallenge();
+    if (challenge) {
+      drawChallengeOverlay(
+        ctx,
+        challenge,
+        renderConfig.canvasWidth,
+        renderConfig.canvasHeight,
+        leaderboard.records[challenge.mode]?.bestScore ?? null
+      );
+    }
+    
+    // 成就解锁提示逐个显示在最上层
+    const toast = achievementToastsRef.current[0];
+    if (toast) {
+      toast.age += frameTime;
+      if (toast.age >= TOAST_DURATION) {
+        achievementToastsRef.current.shift();
+      } else {
+        drawAchievementToast(ctx, toast, renderConfig.canvasWidth);
+      }
     }
     
     animationRef.current = requestAnimationFrame(gameLoop);
-  }, [config, ball, isPaused, drawHexagon, drawBall]);
+  }, [
+    simulation,
+    activeSimulation,
+    scoring,
+    timeSeries,
+    heatmap,
+    showHeatmap,
+    heatmapFrame,
+    sessionTracker,
+    achievementTracker,
+    replayPlayer,
+    isPaused,
+    selectedFieldId,
+    selectedObstacleId,
+    leaderboard.records,
+    updateAndDrawCollisionEffects,
+  ]);
+  
+  /**
+   * 执行一个输入并录制下来（录制的步数即输入生效前的模拟步数）
+   */
+  const dispatchInput = useCallback((input: SimulationInput) => {
+    recorder.record(simulation.getTick(), input);
+    applyInput(simulation, input);
+    setBalls(simulation.getBalls());
+  }, [simulation, recorder]);
   
   /**
    * 配置更新处理
    */
-  const handleConfigChange = useCallback((newConfig: Partial<GameConfig>) => {
-    setConfig(prev => {
-      const updated = { ...prev, ...newConfig };
+  const handleConfigChange = useCallback((newConfig: Partial<SimulationConfig>) => {
+    dispatchInput({ type: 'config', config: newConfig });
+  }, [dispatchInput]);
+  
+  /**
+   * 暂停/继续
+   */
+  const togglePause = useCallback(() => {
+    dispatchInput({ type: 'pause', paused: !isPaused });
+  }, [isPaused, dispatchInput]);
+  
+  /**
+   * 重置小球位置（只保留一个小球）
+   */
+  const resetBall = useCallback(() => {
+    dispatchInput({ type: 'reset' });
+  }, [dispatchInput]);
+  
+  /**
+   * 在指定位置生成一个新小球
+   */
+  const spawnBall = useCallback((x: number, y: number) => {
+    dispatchInput({ type: 'spawn', position: { x, y } });
+  }, [dispatchInput]);
+  
+  /**
+   * 在六边形中心附近随机位置添加小球
+   */
+  const addBall = useCallback(() => {
+    audioManager.activate();
+    dispatchInput({ type: 'spawnRandom' });
+  }, [dispatchInput]);
+  
+  /**
+   * 把鼠标事件换算为画布坐标
+   */
+  const getCanvasPoint = useCallback((event: React.MouseEvent<HTMLCanvasElement>): Vector2D => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  }, []);
+  
+  /**
+   * 更新力场列表（作为配置输入录制）
+   */
+  const updateForceFields = useCallback((fields: ForceField[]) => {
+    handleConfigChange({ forceFields: fields });
+  }, [handleConfigChange]);
+  
+  /**
+   * 修改单个力场
+   */
+  const updateForceField = useCallback((id: number, changes: Partial<ForceField>) => {
+    updateForceFields(config.forceFields.map(field => (field.id === id ? { ...field, ...changes } : field)));
+  }, [config.forceFields, updateForceFields]);
+  
+  /**
+   * 删除力场
+   */
+  const deleteForceField = useCallback((id: number) => {
+    updateForceFields(config.forceFields.filter(field => field.id !== id));
+    setSelectedFieldId(null);
+  }, [config.forceFields, updateForceFields]);
+  
+  /**
+   * 更新障碍物列表（作为配置输入录制）
+   */
+  const updateObstacles = useCallback((obstacles: Obstacle[]) => {
+    handleConfigChange({ obstacles });
+  }, [handleConfigChange]);
+  
+  /**
+   * 修改单个障碍物；切换是否随容器旋转时保持它当前在画面上的位置和方向不变
+   */
+  const updateObstacle = useCallback((id: number, changes: Partial<Obstacle>) => {
+    const rotation = simulation.getRotation();
+    
+    updateObstacles(config.obstacles.map(obstacle => {
+      if (obstacle.id !== id) return obstacle;
+      if (changes.rotating === undefined || changes.rotating === obstacle.rotating) {
+        return { ...obstacle, ...changes };
+      }
       
-      // 如果六边形大小改变，需要重新约束小球位置
-      if (newConfig.hexagonRadius) {
-        setBall(prevBall => {
-          const hexagonCenter = { 
-            x: updated.canvasWidth / 2, 
-            y: updated.canvasHeight / 2 
-          };
-          
-          const constrainedPosition = constrainBallInsideHexagon(
-            prevBall.position,
-            updated.ballRadius,
-            hexagonCenter,
-            updated.hexagonRadius,
-            rotationRef.current
-          );
-          
-          return {
-            ...prevBall,
-            position: constrainedPosition,
-            radius: updated.ballRadius,
-          };
-        });
+      const turn = obstacle.rotating ? rotation : -rotation;
+      return {
+        ...obstacle,
+        ...changes,
+        offset: Vector.rotate(obstacle.offset, turn),
+        angle: obstacle.angle + turn,
+      };
+    }));
+  }, [simulation, config.obstacles, updateObstacles]);
+  
+  /**
+   * 删除障碍物
+   */
+  const deleteObstacle = useCallback((id: number) => {
+    updateObstacles(config.obstacles.filter(obstacle => obstacle.id !== id));
+    setSelectedObstacleId(null);
+  }, [config.obstacles, updateObstacles]);
+  
+  /**
+   * 右键：点中已有力场时选中它，否则在该位置放置新力场；
+   * 按住 Shift 时改为选中或放置障碍物
+   */
+  const handleContextMenu = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    event.preventDefault();
+    if (replayPlayer) return;
+    
+    const point = getCanvasPoint(event);
+    
+    if (event.shiftKey) {
+      const center = simulation.getCenter();
+      const rotation = simulation.getRotation();
+      const hit = findObstacleAt(config.obstacles, point, center, rotation);
+      setSelectedFieldId(null);
+      if (hit) {
+        setSelectedObstacleId(hit.id);
+        return;
       }
       
-      return updated;
-    });
+      const id = config.obstacles.reduce((max, obstacle) => Math.max(max, obstacle.id + 1), 0);
+      const offset = toObstacleOffset(point, center, rotation, obstacleRotating);
+      updateObstacles([...config.obstacles, createObstacle(obstacleType, offset, id, obstacleRotating)]);
+      setSelectedObstacleId(id);
+      return;
+    }
+    
+    setSelectedObstacleId(null);
+    const hit = findFieldAt(config.forceFields, point);
+    if (hit) {
+      setSelectedFieldId(hit.id);
+      return;
+    }
+    
+    const id = config.forceFields.reduce((max, field) => Math.max(max, field.id + 1), 0);
+    updateForceFields([...config.forceFields, createForceField(placementType, point, id)]);
+    setSelectedFieldId(id);
+  }, [
+    replayPlayer,
+    simulation,
+    config.forceFields,
+    config.obstacles,
+    placementType,
+    obstacleType,
+    obstacleRotating,
+    getCanvasPoint,
+    updateForceFields,
+    updateObstacles,
+  ]);
+  
+  /**
+   * 左键按下：点中力场时开始拖动
+   */
+  const handleMouseDown = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (event.button !== 0 || replayPlayer) return;
+    
+    const hit = findFieldAt(config.forceFields, getCanvasPoint(event));
+    if (hit) {
+      draggingFieldRef.current = hit.id;
+      suppressClickRef.current = true;
+      setSelectedFieldId(hit.id);
+      setSelectedObstacleId(null);
+    }
+  }, [replayPlayer, config.forceFields, getCanvasPoint]);
+  
+  /**
+   * 拖动力场
+   */
+  const handleMouseMove = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    const id = draggingFieldRef.current;
+    if (id === null) return;
+    
+    updateForceField(id, { position: getCanvasPoint(event) });
+  }, [getCanvasPoint, updateForceField]);
+  
+  /**
+   * 结束拖动
+   */
+  const handleMouseUp = useCallback(() => {
+    draggingFieldRef.current = null;
   }, []);
   
   /**
-   * 重置小球位置
+   * 按 Delete 或 Backspace 删除选中的力场或障碍物
    */
-  const resetBall = useCallback(() => {
-    const hexagonCenter = { 
-      x: config.canvasWidth / 2, 
-      y: config.canvasHeight / 2 
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (replayPlayer) return;
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      if (event.key !== 'Delete' && event.key !== 'Backspace') return;
+      
+      if (selectedObstacleId !== null) {
+        deleteObstacle(selectedObstacleId);
+      } else if (selectedFieldId !== null) {
+        deleteForceField(selectedFieldId);
+      }
     };
     
-    const newPosition = constrainBallInsideHexagon(
-      { x: config.canvasWidth / 2, y: config.canvasHeight / 2 - 50 },
-      config.ballRadius,
-      hexagonCenter,
-      config.hexagonRadius,
-      rotationRef.current
-    );
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedFieldId, selectedObstacleId, replayPlayer, deleteForceField, deleteObstacle]);
+  
+  /**
+   * 弹球模式：按住左右方向键或 Z、/ 抬起挡板，按下和松开都作为输入录制
+   */
+  useEffect(() => {
+    if (config.mode !== GameMode.PINBALL || replayPlayer) return;
+    
+    const handleKey = (event: KeyboardEvent) => {
+      const side = FLIPPER_KEYS[event.key];
+      if (side === undefined || event.repeat) return;
+      
+      const pressed = event.type === 'keydown';
+      if (pressed && (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement)) return;
+      
+      event.preventDefault();
+      if (pressed) {
+        audioManager.activate();
+        audioManager.playSound(SoundType.CLICK, 0.4, 0.7);
+      }
+      dispatchInput({ type: 'flipper', side, pressed });
+    };
     
-    setBall(createBall(newPosition.x, newPosition.y, config.ballRadius));
-  }, [config]);
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    return () => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+    };
+  }, [config.mode, replayPlayer, dispatchInput]);
   
   /**
-   * 鼠标点击事件：给小球一个初始速度
+   * 弹球模式和挑战模式：结束后重新开始
+   */
+  const restartGame = useCallback(() => {
+    dispatchInput({ type: 'restart' });
+  }, [dispatchInput]);
+  
+  /**
+   * 鼠标点击事件：给所有小球一个朝向点击位置的速度，按住 Shift 点击则生成新小球
    */
   const handleCanvasClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas || isPaused) return;
+    // 点中或拖动力场的点击不施加冲量
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    
+    if (isPaused || replayPlayer) return;
     
     // 激活音频上下文
     audioManager.activate();
     
-    const rect = canvas.getBoundingClientRect();
-    const clickX = event.clientX - rect.left;
-    const clickY = event.clientY - rect.top;
+    // 挑战结束后点击画布重新开始
+    if (simulation.getChallenge()?.phase === ChallengePhase.ENDED) {
+      restartGame();
+      return;
+    }
     
-    setBall(prevBall => {
-      const direction = Vector.subtract({ x: clickX, y: clickY }, prevBall.position);
-      const normalizedDirection = Vector.normalize(direction);
-      const impulse = Vector.multiply(normalizedDirection, 300); // 冲击力大小
-      
-      // 播放点击音效
-      audioManager.playSound(SoundType.CLICK, 0.6, 1.2);
-      
-      // 根据冲击力播放呼啸音效
-      const speed = Vector.magnitude(impulse);
-      if (speed > 200) {
-        audioManager.playSound(SoundType.WHOOSH, 0.4, 1 + speed / 1000);
-      }
-      
-      return {
-        ...prevBall,
-        velocity: Vector.add(prevBall.velocity, impulse),
-      };
-    });
-  }, [isPaused]);
+    const { x: clickX, y: clickY } = getCanvasPoint(event);
+    
+    if (event.shiftKey) {
+      spawnBall(clickX, clickY);
+      return;
+    }
+    
+    dispatchInput({ type: 'impulse', target: { x: clickX, y: clickY }, strength: CLICK_IMPULSE });
+  }, [simulation, isPaused, replayPlayer, getCanvasPoint, spawnBall, dispatchInput, restartGame]);
+  
+  /**
+   * 进入回放模式
+   */
+  const enterReplay = useCallback((file: ReplayFile) => {
+    const player = new ReplayPlayer(file);
+    player.play();
+    
+    ballTrailsRef.current.clear();
+    setReplayError(null);
+    setReplayPlayer(player);
+    setReplayTick(player.tick);
+    setBalls(player.simulation.getBalls());
+  }, []);
+  
+  /**
+   * 回放从录制开始到现在的会话
+   */
+  const startReplay = useCallback(() => {
+    enterReplay(recorder.toReplay(simulation.getTick()));
+  }, [simulation, recorder, enterReplay]);
+  
+  /**
+   * 退出回放，回到实时模拟
+   */
+  const exitReplay = useCallback(() => {
+    ballTrailsRef.current.clear();
+    setReplayPlayer(null);
+    setBalls(simulation.getBalls());
+  }, [simulation]);
+  
+  /**
+   * 回放播放/暂停
+   */
+  const toggleReplayPlay = useCallback(() => {
+    if (!replayPlayer) return;
+    
+    if (replayPlayer.isPlaying()) {
+      replayPlayer.pause();
+    } else {
+      replayPlayer.play();
+    }
+    setReplayTick(replayPlayer.tick);
+  }, [replayPlayer]);
+  
+  /**
+   * 拖动回放进度
+   */
+  const seekReplay = useCallback((tick: number) => {
+    if (!replayPlayer) return;
+    
+    replayPlayer.seek(tick);
+    ballTrailsRef.current.clear();
+    setReplayTick(replayPlayer.tick);
+    setBalls(replayPlayer.simulation.getBalls());
+  }, [replayPlayer]);
+  
+  /**
+   * 从当前状态重新开始录制
+   */
+  const restartRecording = useCallback(() => {
+    setRecorder(new ReplayRecorder(simulation, seed));
+  }, [simulation, seed]);
+  
+  /**
+   * 导出回放文件（回放中导出正在播放的回放）
+   */
+  const exportReplay = useCallback(() => {
+    const file = replayPlayer ? replayPlayer.file : recorder.toReplay(simulation.getTick());
+    downloadText(`hexagon-replay-${file.seed}-${file.endTick}.json`, serializeReplay(file));
+  }, [simulation, recorder, replayPlayer]);
+  
+  /**
+   * 导入回放文件并开始播放
+   */
+  const importReplay = useCallback(async (file: File) => {
+    try {
+      enterReplay(parseReplay(await file.text()));
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : String(error));
+    }
+  }, [enterReplay]);
+  
+  /**
+   * 清空撞击分布（换一个新的统计对象，订阅随之更新）
+   */
+  const resetHeatmap = useCallback(() => {
+    setHeatmap(new CollisionHeatmap());
+  }, []);
+  
+  /**
+   * 导出撞击分布
+   */
+  const exportHeatmap = useCallback(() => {
+    downloadText(`hexagon-heatmap-${activeSimulation.getTick()}.json`, heatmap.serialize());
+  }, [activeSimulation, heatmap]);
+  
+  /**
+   * 修改玩家缩写
+   */
+  const changeInitials = useCallback((initials: string) => {
+    setLeaderboard((board) => ({ ...board, initials }));
+  }, []);
+  
+  /**
+   * 手动结束并记录当前这一局（自由模式等没有结束条件的模式使用）
+   */
+  const recordCurrentSession = useCallback(() => {
+    const result = sessionTracker.finish();
+    sessionTracker.start(simulation);
+    if (result) recordSession(result);
+  }, [simulation, sessionTracker, recordSession]);
+  
+  /**
+   * 导出排行榜
+   */
+  const exportLeaderboard = useCallback(() => {
+    downloadText(`hexagon-leaderboard-${new Date().toISOString().slice(0, 10)}.json`, serializeLeaderboard(leaderboard));
+  }, [leaderboard]);
+  
+  /**
+   * 导入排行榜并与本地记录合并
+   */
+  const importLeaderboard = useCallback(async (file: File) => {
+    try {
+      const imported = parseLeaderboard(await file.text());
+      setLeaderboard((board) => mergeLeaderboards(board, imported));
+      setLeaderboardError(null);
+    } catch (error) {
+      setLeaderboardError(error instanceof Error ? error.message : String(error));
+    }
+  }, []);
   
   /**
    * 组件挂载时启动游戏循环
@@ -701,6 +1085,9 @@ const HexagonBounce: React.FC = () => {
     };
   }, [gameLoop]);
   
+  // 挑战模式的进度和成绩
+  const challenge = activeSimulation.getChallenge();
+  
   return (
     <div className="hexagon-bounce-game">
       <div className="game-container">
@@ -709,18 +1096,29 @@ const HexagonBounce: React.FC = () => {
             width={config.canvasWidth}
             height={config.canvasHeight}
             particleCount={40}
+            random={random.stream(RandomStream.PARTICLES)}
           />
           <canvas
             ref={canvasRef}
             width={config.canvasWidth}
             height={config.canvasHeight}
             onClick={handleCanvasClick}
+            onContextMenu={handleContextMenu}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
             className="game-canvas"
             style={{ position: 'relative', zIndex: 2 }}
           />
         </div>
         <div className="instructions">
-          <p>点击画布给小球施加力量！</p>
+          <p>点击画布给小球施加力量！按住 Shift 点击可添加新小球</p>
+          <p>右键放置力场，拖动中心点移动，按 Delete 删除选中的力场</p>
+          <p>Shift + 右键放置钉子、横杆或弹射器，弹射器会把撞上的小球弹开</p>
+          {config.mode === GameMode.PINBALL && (
+            <p>弹球模式：按 ← / Z 控制左挡板，→ / / 控制右挡板，别让小球掉下去</p>
+          )}
           <p>小球会受重力和摩擦力影响，在旋转的六边形内弹跳</p>
         </div>
       </div>
@@ -728,16 +1126,130 @@ const HexagonBounce: React.FC = () => {
       <div className="panels-container" style={{ display: 'flex', flexDirection: 'column', gap: '20px' }}>
         <ControlPanel
           config={config}
+          seed={seed}
           isPaused={isPaused}
+          ballCount={balls.length}
           onConfigChange={handleConfigChange}
-          onTogglePause={() => setIsPaused(!isPaused)}
+          onTogglePause={togglePause}
           onResetBall={resetBall}
+          onAddBall={addBall}
+          onSeedChange={onSeedChange}
+        />
+        
+        <ForceFieldPanel
+          fields={config.forceFields}
+          selectedId={selectedFieldId}
+          placementType={placementType}
+          disabled={replayPlayer !== null}
+          onPlacementTypeChange={setPlacementType}
+          onSelect={(id) => {
+            setSelectedFieldId(id);
+            setSelectedObstacleId(null);
+          }}
+          onUpdate={updateForceField}
+          onDelete={deleteForceField}
+          onClear={() => {
+            updateForceFields([]);
+            setSelectedFieldId(null);
+          }}
+        />
+        
+        <ObstaclePanel
+          obstacles={config.obstacles}
+          selectedId={selectedObstacleId}
+          placementType={obstacleType}
+          placementRotating={obstacleRotating}
+          disabled={replayPlayer !== null}
+          onPlacementTypeChange={setObstacleType}
+          onPlacementRotatingChange={setObstacleRotating}
+          onSelect={(id) => {
+            setSelectedObstacleId(id);
+            setSelectedFieldId(null);
+          }}
+          onUpdate={updateObstacle}
+          onDelete={deleteObstacle}
+          onClear={() => {
+            updateObstacles([]);
+            setSelectedObstacleId(null);
+          }}
+        />
+        
+        <ReplayPanel
+          recordedInputs={recorder.getInputCount()}
+          recordedTicks={simulation.getTick()}
+          isReplaying={replayPlayer !== null}
+          isPlaying={replayPlayer?.isPlaying() ?? false}
+          replayTick={replayTick}
+          replayStartTick={replayPlayer?.startTick ?? 0}
+          replayEndTick={replayPlayer?.endTick ?? 0}
+          error={replayError}
+          onRestartRecording={restartRecording}
+          onStartReplay={startReplay}
+          onTogglePlay={toggleReplayPlay}
+          onSeek={seekReplay}
+          onExitReplay={exitReplay}
+          onExport={exportReplay}
+          onImport={importReplay}
         />
         
         <StatsPanel
-          ballVelocity={ball.velocity}
+          balls={balls}
           collisionCount={collisionCountRef.current}
+          scoring={scoring.getState()}
+          samples={timeSeries.getSamples()}
+          sampleTime={timeSeries.getTime()}
           isPlaying={!isPaused}
+          escape={activeSimulation.getConfig().mode === GameMode.ESCAPE ? {
+            round: activeSimulation.getRound(),
+            roundTime: activeSimulation.getRoundTime(),
+            lastEscapeTime,
+            bestEscapeTime,
+          } : undefined}
+          breakout={activeSimulation.getConfig().mode === GameMode.BREAKOUT ? {
+            level: activeSimulation.getRound(),
+            bricksLeft: activeSimulation.getBricks().length,
+            slowRotationTime: activeSimulation.getSlowRotationTime(),
+          } : undefined}
+          pinball={activeSimulation.getConfig().mode === GameMode.PINBALL ? {
+            lives,
+            maxLives: PINBALL_LIVES,
+            gameOver: activeSimulation.isGameOver(),
+            onRestart: restartGame,
+          } : undefined}
+          challenge={challenge ? {
+            mode: challenge.mode,
+            phase: challenge.phase,
+            score: getChallengeScore(challenge),
+            bestScore: leaderboard.records[challenge.mode]?.bestScore ?? null,
+            timeLeft: getChallengeTimeLeft(challenge),
+            onRestart: restartGame,
+          } : undefined}
+          heatmap={{
+            edges: heatmap.getEdgeStats(),
+            totalHits: heatmap.getTotalHits(),
+            visible: showHeatmap,
+            frame: heatmapFrame,
+            onToggle: () => setShowHeatmap((visible) => !visible),
+            onFrameChange: setHeatmapFrame,
+            onReset: resetHeatmap,
+            onExport: exportHeatmap,
+          }}
+        />
+        
+        <LeaderboardPanel
+          leaderboard={leaderboard}
+          mode={config.mode}
+          fingerprint={getConfigFingerprint(config)}
+          error={leaderboardError}
+          onInitialsChange={changeInitials}
+          onRecordSession={recordCurrentSession}
+          onExport={exportLeaderboard}
+          onImport={importLeaderboard}
+        />
+        
+        <AchievementPanel
+          unlocked={unlockedAchievements}
+          progress={achievementTracker.getProgress()}
         />
       </div>
     </div>
@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GAME_MODE_LABELS, GameMode } from '../simulation/types';
+import { formatChallengeScore, isChallengeMode } from '../simulation/challenges';
+import { getModeEntries, normalizeInitials } from '../simulation/leaderboard';
+import type { Leaderboard } from '../simulation/leaderboard';
+
+/**
+ * 排行榜面板属性接口
+ */
+interface LeaderboardPanelProps {
+  leaderboard: Leaderboard;
+  mode: GameMode; // 当前游戏模式，面板默认显示该模式
+  fingerprint: string; // 当前配置指纹，相同指纹的条目会高亮
+  error: string | null;
+  onInitialsChange: (initials: string) => void;
+  onRecordSession: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+/**
+ * 格式化分数（挑战模式使用挑战自己的单位）
+ */
+const formatScore = (mode: GameMode, score: number): string => {
+  return isChallengeMode(mode) ? formatChallengeScore(mode, score) : score.toString();
+};
+
+/**
+ * 格式化日期（只显示月日和时分）
+ */
+const formatDate = (iso: string): string => {
+  const date = new Date(iso);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * 排行榜面板组件 - 各模式的最佳记录和前十名，以及排行榜的导入导出
+ */
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({
+  leaderboard,
+  mode,
+  fingerprint,
+  error,
+  onInitialsChange,
+  onRecordSession,
+  onExport,
+  onImport,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [viewMode, setViewMode] = useState<GameMode>(mode);
+
+  // 切换游戏模式时跟着切换显示的模式
+  useEffect(() => {
+    setViewMode(mode);
+  }, [mode]);
+
+  const records = leaderboard.records[viewMode];
+  const entries = getModeEntries(leaderboard, viewMode);
+
+  return (
+    <div className="control-panel leaderboard-panel">
+      <h3>排行榜</h3>
+
+      <div className="control-group">
+        <label>
+          玩家缩写:
+          <input
+            type="text"
+            className="shape-select initials-input"
+            value={leaderboard.initials}
+            maxLength={3}
+            onChange={(e) => onInitialsChange(normalizeInitials(e.target.value))}
+          />
+        </label>
+        <label>
+          模式:
+          <select
+            className="shape-select"
+            value={viewMode}
+            onChange={(e) => setViewMode(e.target.value as GameMode)}
+          >
+            {Object.values(GameMode).map((option) => (
+              <option key={option} value={option}>{GAME_MODE_LABELS[option]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="leaderboard-records">
+        <div className="leaderboard-record">
+          <span>最高分</span>
+          <strong>{records ? formatScore(viewMode, records.bestScore) : '--'}</strong>
+        </div>
+        <div className="leaderboard-record">
+          <span>最高速度</span>
+          <strong>{records ? records.topSpeed.toFixed(1) : '--'}</strong>
+        </div>
+        <div className="leaderboard-record">
+          <span>最长一局</span>
+          <strong>{records ? `${records.longestSession.toFixed(1)}s` : '--'}</strong>
+        </div>
+        <div className="leaderboard-record">
+          <span>最多反弹</span>
+          <strong>{records ? records.mostBounces : '--'}</strong>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="leaderboard-empty">还没有记录</div>
+      ) : (
+        <div className="leaderboard-list">
+          {entries.map((entry, index) => (
+            <div
+              key={`${entry.date}-${entry.initials}-${index}`}
+              className={`leaderboard-row${entry.fingerprint === fingerprint ? ' current' : ''}`}
+              title={`配置指纹 ${entry.fingerprint || '未知'}`}
+            >
+              <span className="leaderboard-rank">{index + 1}</span>
+              <span className="leaderboard-initials">{entry.initials}</span>
+              <span>{formatScore(entry.mode, entry.score)}</span>
+              <span>{formatDate(entry.date)}</span>
+              <span className="leaderboard-fingerprint">{entry.fingerprint.slice(0, 6) || '--'}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="control-group">
+        <div className="replay-buttons">
+          <button onClick={onRecordSession} className="control-button">
+            记录本局
+          </button>
+          <button onClick={onExport} className="control-button">
+            导出
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="control-button">
+            导入
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+        {error && <div className="replay-error">{error}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
@@ -0,0 +1,157 @@
+import React from 'react';
+import { OBSTACLE_STYLES, ObstacleType } from '../utils/obstacles';
+import type { Obstacle } from '../utils/obstacles';
+
+/**
+ * 障碍物面板属性接口
+ */
+interface ObstaclePanelProps {
+  obstacles: Obstacle[];
+  selectedId: number | null;
+  placementType: ObstacleType;
+  placementRotating: boolean;
+  disabled: boolean;
+  onPlacementTypeChange: (type: ObstacleType) => void;
+  onPlacementRotatingChange: (rotating: boolean) => void;
+  onSelect: (id: number | null) => void;
+  onUpdate: (id: number, changes: Partial<Obstacle>) => void;
+  onDelete: (id: number) => void;
+  onClear: () => void;
+}
+
+/**
+ * 障碍物面板组件 - 选择放置类型，编辑、删除已放置的钉子、横杆和弹射器
+ */
+const ObstaclePanel: React.FC<ObstaclePanelProps> = ({
+  obstacles,
+  selectedId,
+  placementType,
+  placementRotating,
+  disabled,
+  onPlacementTypeChange,
+  onPlacementRotatingChange,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onClear,
+}) => {
+  const selected = obstacles.find((obstacle) => obstacle.id === selectedId) ?? null;
+
+  return (
+    <div className="control-panel obstacle-panel">
+      <h3>障碍物</h3>
+
+      <div className="control-group">
+        <label>
+          Shift + 右键放置:
+          <select
+            className="shape-select"
+            value={placementType}
+            onChange={(e) => onPlacementTypeChange(e.target.value as ObstacleType)}
+          >
+            {Object.values(ObstacleType).map((type) => (
+              <option key={type} value={type}>{OBSTACLE_STYLES[type].label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          随容器旋转:
+          <input
+            type="checkbox"
+            checked={placementRotating}
+            onChange={(e) => onPlacementRotatingChange(e.target.checked)}
+          />
+          <span>{placementRotating ? '是' : '否'}</span>
+        </label>
+      </div>
+
+      {obstacles.length > 0 && (
+        <div className="control-group">
+          <div className="field-list">
+            {obstacles.map((obstacle) => (
+              <button
+                key={obstacle.id}
+                className={`field-chip ${obstacle.id === selectedId ? 'selected' : ''}`}
+                style={{ borderColor: `rgb(${OBSTACLE_STYLES[obstacle.type].color})` }}
+                onClick={() => onSelect(obstacle.id === selectedId ? null : obstacle.id)}
+              >
+                {OBSTACLE_STYLES[obstacle.type].label} #{obstacle.id}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {selected && (
+        <div className="control-group sub-controls">
+          <label>
+            {selected.type === ObstacleType.BAR ? '粗细' : '半径'}:
+            <input
+              type="range"
+              min="3"
+              max="40"
+              step="1"
+              value={selected.radius}
+              disabled={disabled}
+              onChange={(e) => onUpdate(selected.id, { radius: parseInt(e.target.value) })}
+            />
+            <span>{selected.radius}px</span>
+          </label>
+          {selected.type === ObstacleType.BAR && (
+            <>
+              <label>
+                长度:
+                <input
+                  type="range"
+                  min="20"
+                  max="240"
+                  step="5"
+                  value={selected.length}
+                  disabled={disabled}
+                  onChange={(e) => onUpdate(selected.id, { length: parseInt(e.target.value) })}
+                />
+                <span>{selected.length}px</span>
+              </label>
+              <label>
+                角度:
+                <input
+                  type="range"
+                  min="-90"
+                  max="90"
+                  step="5"
+                  value={Math.round((selected.angle * 180) / Math.PI)}
+                  disabled={disabled}
+                  onChange={(e) => onUpdate(selected.id, { angle: (parseInt(e.target.value) * Math.PI) / 180 })}
+                />
+                <span>{Math.round((selected.angle * 180) / Math.PI)}°</span>
+              </label>
+            </>
+          )}
+          <label>
+            随容器旋转:
+            <input
+              type="checkbox"
+              checked={selected.rotating}
+              disabled={disabled}
+              onChange={(e) => onUpdate(selected.id, { rotating: e.target.checked })}
+            />
+            <span>{selected.rotating ? '是' : '否'}</span>
+          </label>
+          <button onClick={() => onDelete(selected.id)} className="control-button" disabled={disabled}>
+            删除障碍物
+          </button>
+        </div>
+      )}
+
+      {obstacles.length > 0 && (
+        <div className="control-group">
+          <button onClick={onClear} className="control-button" disabled={disabled}>
+            清除全部障碍物
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObstaclePanel;
@@ -1,4 +1,5 @@
 import React, { useRef, useEffect, useCallback } from 'react';
+import type { Random } from '../utils/random';
 
 /**
  * 粒子接口定义
@@ -23,6 +24,7 @@ interface ParticleSystemProps {
   width: number;
   height: number;
   particleCount?: number;
+  random: Random;
   className?: string;
 }
 
@@ -33,6 +35,7 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({
   width,
   height,
   particleCount = 50,
+  random,
   className = '',
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -47,18 +50,18 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({
     const colors = ['#ffffff', '#00ff88', '#ff6b6b', '#4ecdc4', '#45b7d1', '#96ceb4'];
     
     return {
-      x: Math.random() * width,
-      y: Math.random() * height,
-      vx: (Math.random() - 0.5) * 0.5, // 水平速度
-      vy: (Math.random() - 0.5) * 0.5, // 垂直速度
-      life: Math.random() * 300 + 100,
-      maxLife: Math.random() * 300 + 100,
-      size: Math.random() * 2 + 0.5,
-      color: colors[Math.floor(Math.random() * colors.length)],
-      alpha: Math.random() * 0.8 + 0.2,
-      twinkle: Math.random() * Math.PI * 2,
+      x: random.next() * width,
+      y: random.next() * height,
+      vx: (random.next() - 0.5) * 0.5, // 水平速度
+      vy: (random.next() - 0.5) * 0.5, // 垂直速度
+      life: random.next() * 300 + 100,
+      maxLife: random.next() * 300 + 100,
+      size: random.next() * 2 + 0.5,
+      color: colors[Math.floor(random.next() * colors.length)],
+      alpha: random.next() * 0.8 + 0.2,
+      twinkle: random.next() * Math.PI * 2,
     };
-  }, [width, height]);
+  }, [width, height, random]);
 
   /**
    * 初始化粒子系统
@@ -0,0 +1,126 @@
+import React, { useRef } from 'react';
+import { FIXED_TIMESTEP } from '../utils/timestep';
+
+/**
+ * 回放面板属性接口
+ */
+interface ReplayPanelProps {
+  recordedInputs: number;
+  recordedTicks: number;
+  isReplaying: boolean;
+  isPlaying: boolean;
+  replayTick: number;
+  replayStartTick: number;
+  replayEndTick: number;
+  error: string | null;
+  onRestartRecording: () => void;
+  onStartReplay: () => void;
+  onTogglePlay: () => void;
+  onSeek: (tick: number) => void;
+  onExitReplay: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+/**
+ * 把模拟步数格式化为秒
+ */
+const formatTicks = (ticks: number): string => {
+  return `${(ticks * FIXED_TIMESTEP).toFixed(1)}s`;
+};
+
+/**
+ * 回放面板组件 - 录制输入、回放、拖动进度以及导入导出回放文件
+ */
+const ReplayPanel: React.FC<ReplayPanelProps> = ({
+  recordedInputs,
+  recordedTicks,
+  isReplaying,
+  isPlaying,
+  replayTick,
+  replayStartTick,
+  replayEndTick,
+  error,
+  onRestartRecording,
+  onStartReplay,
+  onTogglePlay,
+  onSeek,
+  onExitReplay,
+  onExport,
+  onImport,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="control-panel replay-panel">
+      <h3>录制与回放</h3>
+
+      {!isReplaying ? (
+        <div className="control-group">
+          <label>
+            正在录制:
+            <span>{recordedInputs} 个输入 / {formatTicks(recordedTicks)}</span>
+          </label>
+          <div className="replay-buttons">
+            <button onClick={onStartReplay} className="control-button">
+              回放
+            </button>
+            <button onClick={onRestartRecording} className="control-button">
+              重新录制
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="control-group">
+          <label>
+            回放进度:
+            <input
+              type="range"
+              min={replayStartTick}
+              max={replayEndTick}
+              step="1"
+              value={replayTick}
+              onChange={(e) => onSeek(parseInt(e.target.value))}
+            />
+            <span>
+              {formatTicks(replayTick - replayStartTick)} / {formatTicks(replayEndTick - replayStartTick)}
+            </span>
+          </label>
+          <div className="replay-buttons">
+            <button onClick={onTogglePlay} className="control-button">
+              {isPlaying ? '暂停' : '播放'}
+            </button>
+            <button onClick={onExitReplay} className="control-button">
+              退出回放
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="control-group">
+        <div className="replay-buttons">
+          <button onClick={onExport} className="control-button">
+            导出回放
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="control-button">
+            导入回放
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+        {error && <div className="replay-error">{error}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -1,24 +1,86 @@
 import React, { useEffect, useState } from 'react';
+import type { Ball } from '../utils/physics';
+import { MATERIALS } from '../utils/materials';
+import { CHALLENGE_STYLES, ChallengePhase, formatChallengeScore } from '../simulation/challenges';
+import type { ChallengeMode } from '../simulation/challenges';
+import type { ScoreState } from '../simulation/scoring';
+import { createGameStats, getBallSpeed, updateGameStats } from '../simulation/stats';
+import type { GameStats } from '../simulation/stats';
+import type { TimeSample } from '../simulation/timeSeries';
+import { HeatmapFrame } from '../simulation/heatmap';
+import type { EdgeImpactStats } from '../simulation/heatmap';
+import TimeSeriesChart from './TimeSeriesChart';
 
 /**
- * 游戏统计数据接口
+ * 逃脱模式的回合数据
  */
-interface GameStats {
+export interface EscapeRoundStats {
+  round: number;
+  roundTime: number; // 本轮已进行的时间 (s)
+  lastEscapeTime: number | null;
+  bestEscapeTime: number | null;
+}
+
+/**
+ * 打砖块模式的关卡数据
+ */
+export interface BreakoutStats {
+  level: number;
+  bricksLeft: number;
+  slowRotationTime: number; // 减速道具剩余时间 (s)
+}
+
+/**
+ * 弹球模式的生命和结束状态
+ */
+export interface PinballStats {
+  lives: number;
+  maxLives: number;
+  gameOver: boolean;
+  onRestart: () => void;
+}
+
+/**
+ * 挑战模式的进度和成绩
+ */
+export interface ChallengeStats {
+  mode: ChallengeMode;
+  phase: ChallengePhase;
   score: number;
-  bounces: number;
-  maxSpeed: number;
-  currentSpeed: number;
-  totalTime: number;
-  collisions: number;
+  bestScore: number | null;
+  timeLeft: number | null; // 剩余时间 (s)，生存模式为 null
+  onRestart: () => void;
+}
+
+/**
+ * 撞击分布：各边统计和热力图开关
+ */
+export interface HeatmapStats {
+  edges: EdgeImpactStats[];
+  totalHits: number;
+  visible: boolean;
+  frame: HeatmapFrame;
+  onToggle: () => void;
+  onFrameChange: (frame: HeatmapFrame) => void;
+  onReset: () => void;
+  onExport: () => void;
 }
 
 /**
  * 统计面板属性接口
  */
 interface StatsPanelProps {
-  ballVelocity: { x: number; y: number };
+  balls: Ball[];
   collisionCount: number;
+  scoring: ScoreState; // 计分引擎的当前状态
+  samples: TimeSample[]; // 图表使用的历史采样
+  sampleTime: number; // 最新的采样时间 (s)
   isPlaying: boolean;
+  escape?: EscapeRoundStats; // 仅逃脱模式下提供
+  pinball?: PinballStats; // 仅弹球模式下提供
+  breakout?: BreakoutStats; // 仅打砖块模式下提供
+  challenge?: ChallengeStats; // 仅挑战模式下提供
+  heatmap: HeatmapStats;
   className?: string;
 }
 
@@ -26,29 +88,23 @@ interface StatsPanelProps {
  * 统计面板组件 - 显示游戏数据统计
  */
 const StatsPanel: React.FC<StatsPanelProps> = ({
-  ballVelocity,
+  balls,
   collisionCount,
+  scoring,
+  samples,
+  sampleTime,
   isPlaying,
+  escape,
+  pinball,
+  breakout,
+  challenge,
+  heatmap,
   className = '',
 }) => {
-  const [stats, setStats] = useState<GameStats>({
-    score: 0,
-    bounces: 0,
-    maxSpeed: 0,
-    currentSpeed: 0,
-    totalTime: 0,
-    collisions: 0,
-  });
+  const [stats, setStats] = useState<GameStats>(createGameStats);
   
   const [startTime, setStartTime] = useState<number>(Date.now());
 
-  /**
-   * 计算当前速度
-   */
-  const getCurrentSpeed = (): number => {
-    return Math.sqrt(ballVelocity.x * ballVelocity.x + ballVelocity.y * ballVelocity.y);
-  };
-
   /**
    * 格式化时间显示
    */
@@ -58,6 +114,13 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  /**
+   * 格式化秒数（保留一位小数）
+   */
+  const formatSeconds = (seconds: number | null): string => {
+    return seconds === null ? '--' : `${seconds.toFixed(1)}s`;
+  };
+
   /**
    * 格式化速度显示
    */
@@ -65,42 +128,29 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
     return speed.toFixed(1);
   };
 
+  /**
+   * 格式化冲量（较大时以千为单位）
+   */
+  const formatImpulse = (impulse: number): string => {
+    return impulse >= 1000 ? `${(impulse / 1000).toFixed(1)}k` : impulse.toFixed(0);
+  };
+
+  /**
+   * 边的名称（内层容器标出层号）
+   */
+  const formatEdge = ({ ringIndex, edgeIndex }: EdgeImpactStats): string => {
+    return ringIndex === 0 ? `边 ${edgeIndex + 1}` : `内层 ${ringIndex} · 边 ${edgeIndex + 1}`;
+  };
+
   /**
    * 更新统计数据
    */
   useEffect(() => {
-    const currentSpeed = getCurrentSpeed();
     const currentTime = isPlaying ? (Date.now() - startTime) / 1000 : stats.totalTime;
     
-    setStats(prevStats => {
-      const newStats = { ...prevStats };
-      
-      // 更新当前速度
-      newStats.currentSpeed = currentSpeed;
-      
-      // 更新最高速度
-      if (currentSpeed > newStats.maxSpeed) {
-        newStats.maxSpeed = currentSpeed;
-      }
-      
-      // 更新碰撞次数
-      if (collisionCount > newStats.collisions) {
-        newStats.bounces = collisionCount;
-        newStats.collisions = collisionCount;
-        
-        // 根据碰撞和速度计算分数
-        const speedBonus = Math.floor(currentSpeed / 10);
-        newStats.score += 10 + speedBonus;
-      }
-      
-      // 更新游戏时间
-      if (isPlaying) {
-        newStats.totalTime = currentTime;
-      }
-      
-      return newStats;
-    });
-  }, [ballVelocity, collisionCount, isPlaying, startTime, stats.totalTime]);
+    // 分数由计分引擎根据碰撞事件计算
+    setStats(prevStats => updateGameStats(prevStats, balls, collisionCount, currentTime));
+  }, [balls, collisionCount, isPlaying, startTime, stats.totalTime]);
 
   /**
    * 重置开始时间
@@ -120,10 +170,30 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
           <div className="stat-icon">🏆</div>
           <div className="stat-content">
             <div className="stat-label">分数</div>
-            <div className="stat-value">{stats.score}</div>
+            <div className="stat-value">{scoring.score}</div>
           </div>
         </div>
         
+        <div className="stat-item combo">
+          <div className="stat-icon">🔥</div>
+          <div className="stat-content">
+            <div className="stat-label">连击 (最高 {scoring.bestCombo})</div>
+            <div className="stat-value">
+              {scoring.combo > 1 ? `${scoring.combo} 连 ×${scoring.multiplier.toFixed(1)}` : '--'}
+            </div>
+          </div>
+        </div>
+        
+        {scoring.penalty > 0 && (
+          <div className="stat-item rest-penalty">
+            <div className="stat-icon">💤</div>
+            <div className="stat-content">
+              <div className="stat-label">静止扣分</div>
+              <div className="stat-value">-{scoring.penalty}</div>
+            </div>
+          </div>
+        )}
+        
         <div className="stat-item bounces">
           <div className="stat-icon">🎾</div>
           <div className="stat-content">
@@ -163,8 +233,163 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
             <div className="stat-value">{isPlaying ? '进行中' : '暂停'}</div>
           </div>
         </div>
+        
+        <div className="stat-item ball-count">
+          <div className="stat-icon">🔴</div>
+          <div className="stat-content">
+            <div className="stat-label">小球数量</div>
+            <div className="stat-value">{balls.length}</div>
+          </div>
+        </div>
+        
+        {escape && (
+          <>
+            <div className="stat-item round">
+              <div className="stat-icon">🚪</div>
+              <div className="stat-content">
+                <div className="stat-label">逃脱回合</div>
+                <div className="stat-value">第 {escape.round} 轮</div>
+              </div>
+            </div>
+            
+            <div className="stat-item round-time">
+              <div className="stat-icon">⏳</div>
+              <div className="stat-content">
+                <div className="stat-label">本轮计时</div>
+                <div className="stat-value">{formatSeconds(escape.roundTime)}</div>
+              </div>
+            </div>
+            
+            <div className="stat-item escape-time">
+              <div className="stat-icon">🏃</div>
+              <div className="stat-content">
+                <div className="stat-label">上次逃脱</div>
+                <div className="stat-value">{formatSeconds(escape.lastEscapeTime)}</div>
+              </div>
+            </div>
+            
+            <div className="stat-item best-escape">
+              <div className="stat-icon">🥇</div>
+              <div className="stat-content">
+                <div className="stat-label">最快逃脱</div>
+                <div className="stat-value">{formatSeconds(escape.bestEscapeTime)}</div>
+              </div>
+            </div>
+          </>
+        )}
+        
+        {breakout && (
+          <>
+            <div className="stat-item level">
+              <div className="stat-icon">🧱</div>
+              <div className="stat-content">
+                <div className="stat-label">关卡</div>
+                <div className="stat-value">第 {breakout.level} 关</div>
+              </div>
+            </div>
+            
+            <div className="stat-item bricks-left">
+              <div className="stat-icon">🎯</div>
+              <div className="stat-content">
+                <div className="stat-label">剩余砖块</div>
+                <div className="stat-value">{breakout.bricksLeft}</div>
+              </div>
+            </div>
+            
+            {breakout.slowRotationTime > 0 && (
+              <div className="stat-item slow-rotation">
+                <div className="stat-icon">🐢</div>
+                <div className="stat-content">
+                  <div className="stat-label">减速中</div>
+                  <div className="stat-value">{formatSeconds(breakout.slowRotationTime)}</div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+        
+        {challenge && (
+          <>
+            <div className="stat-item challenge">
+              <div className="stat-icon">🎯</div>
+              <div className="stat-content">
+                <div className="stat-label">{CHALLENGE_STYLES[challenge.mode].label}</div>
+                <div className="stat-value">{formatChallengeScore(challenge.mode, challenge.score)}</div>
+              </div>
+            </div>
+            
+            {challenge.timeLeft !== null && (
+              <div className="stat-item challenge-time">
+                <div className="stat-icon">⏳</div>
+                <div className="stat-content">
+                  <div className="stat-label">剩余时间</div>
+                  <div className="stat-value">{formatSeconds(challenge.timeLeft)}</div>
+                </div>
+              </div>
+            )}
+            
+            <div className="stat-item challenge-best">
+              <div className="stat-icon">🥇</div>
+              <div className="stat-content">
+                <div className="stat-label">最佳成绩</div>
+                <div className="stat-value">
+                  {challenge.bestScore === null ? '--' : formatChallengeScore(challenge.mode, challenge.bestScore)}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+        
+        {pinball && (
+          <div className="stat-item lives">
+            <div className="stat-icon">❤️</div>
+            <div className="stat-content">
+              <div className="stat-label">剩余生命</div>
+              <div className="stat-value">
+                {'♥'.repeat(pinball.lives)}{'♡'.repeat(pinball.maxLives - pinball.lives)}
+              </div>
+            </div>
+          </div>
+        )}
       </div>
       
+      {/* 弹球模式结束 */}
+      {pinball?.gameOver && (
+        <div className="game-over">
+          <div className="game-over-title">游戏结束</div>
+          <div className="game-over-score">最终得分 {scoring.score}</div>
+          <button onClick={pinball.onRestart} className="control-button">
+            再来一局
+          </button>
+        </div>
+      )}
+      
+      {/* 挑战结束 */}
+      {challenge?.phase === ChallengePhase.ENDED && (
+        <div className="game-over">
+          <div className="game-over-title">{CHALLENGE_STYLES[challenge.mode].label}结束</div>
+          <div className="game-over-score">成绩 {formatChallengeScore(challenge.mode, challenge.score)}</div>
+          <button onClick={challenge.onRestart} className="control-button">
+            再来一次
+          </button>
+        </div>
+      )}
+      
+      {/* 每个小球的状态 */}
+      {balls.length > 1 && (
+        <div className="ball-list">
+          {balls.map((ball) => (
+            <div key={ball.id} className="ball-list-item">
+              <span className="ball-list-name" style={{ color: MATERIALS[ball.material].color }}>#{ball.id}</span>
+              <span>{MATERIALS[ball.material].label}</span>
+              <span>r {ball.radius}px</span>
+              <span>m {ball.mass.toFixed(2)}</span>
+              <span>{formatSpeed(getBallSpeed(ball))} px/s</span>
+            </div>
+          ))}
+        </div>
+      )}
+      
       {/* 速度条 */}
       <div className="speed-bar-container">
         <div className="speed-bar-label">速度指示器</div>
@@ -182,6 +407,61 @@ const StatsPanel: React.FC<StatsPanelProps> = ({
           />
         </div>
       </div>
+      
+      {/* 历史曲线 */}
+      <div className="speed-bar-container">
+        <div className="speed-bar-label">动态曲线</div>
+        <TimeSeriesChart samples={samples} now={sampleTime} isPlaying={isPlaying} />
+      </div>
+      
+      {/* 撞击分布 */}
+      <div className="speed-bar-container">
+        <div className="speed-bar-label">撞击分布 ({heatmap.totalHits} 次)</div>
+        <div className="chart-controls">
+          <select
+            className="shape-select"
+            value={heatmap.frame}
+            onChange={(e) => heatmap.onFrameChange(e.target.value as HeatmapFrame)}
+          >
+            <option value={HeatmapFrame.LOCAL}>随容器旋转</option>
+            <option value={HeatmapFrame.WORLD}>世界坐标</option>
+          </select>
+          <div className="chart-windows">
+            <button
+              className={`chart-window-button${heatmap.visible ? ' active' : ''}`}
+              onClick={heatmap.onToggle}
+            >
+              热力图
+            </button>
+            <button className="chart-window-button" onClick={heatmap.onReset}>
+              重置
+            </button>
+            <button className="chart-window-button" onClick={heatmap.onExport}>
+              导出
+            </button>
+          </div>
+        </div>
+        {heatmap.edges.length > 0 && (
+          <div className="edge-stats">
+            <div className="edge-stats-row edge-stats-header">
+              <span>边</span>
+              <span>撞击</span>
+              <span>占比</span>
+              <span>冲量</span>
+              <span>最大速度</span>
+            </div>
+            {heatmap.edges.map((edge) => (
+              <div key={`${edge.ringIndex}-${edge.edgeIndex}`} className="edge-stats-row">
+                <span>{formatEdge(edge)}</span>
+                <span>{edge.hits}</span>
+                <span>{((edge.hits / heatmap.totalHits) * 100).toFixed(0)}%</span>
+                <span>{formatImpulse(edge.impulse)}</span>
+                <span>{formatSpeed(edge.maxImpactSpeed)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
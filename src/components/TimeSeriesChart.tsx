@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CHARTS, CHART_WINDOWS, ChartId } from '../simulation/timeSeries';
+import type { TimeSample } from '../simulation/timeSeries';
+import { drawTimeSeriesChart, getChartLayout, xToTime } from '../render/chart';
+
+/**
+ * 图表画布尺寸
+ */
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+
+/**
+ * 时间序列图表属性接口
+ */
+interface TimeSeriesChartProps {
+  samples: TimeSample[];
+  now: number; // 当前的采样时间 (s)
+  isPlaying: boolean;
+}
+
+/**
+ * 格式化时间窗口
+ */
+const formatWindow = (seconds: number): string => {
+  return seconds >= 60 ? `${seconds / 60}min` : `${seconds}s`;
+};
+
+/**
+ * 找到离指定时间最近的采样
+ */
+const findNearestSample = (samples: TimeSample[], time: number): TimeSample | null => {
+  return samples.reduce<TimeSample | null>(
+    (nearest, sample) => (!nearest || Math.abs(sample.time - time) < Math.abs(nearest.time - time) ? sample : nearest),
+    null
+  );
+};
+
+/**
+ * 时间序列图表组件 - 在小画布上绘制滚动折线图，可切换图表和时间窗口，悬停显示读数
+ *
+ * 冻结后图表停在冻结时的数据上（模拟继续运行），仍可悬停查看读数。
+ */
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ samples, now, isPlaying }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [chartId, setChartId] = useState<ChartId>(ChartId.SPEED);
+  const [windowSize, setWindowSize] = useState<number>(CHART_WINDOWS[0]);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [frozen, setFrozen] = useState<{ samples: TimeSample[]; now: number } | null>(null);
+
+  // 冻结时显示冻结那一刻的数据
+  const shownSamples = frozen?.samples ?? samples;
+  const shownNow = frozen?.now ?? now;
+
+  const chart = CHARTS[chartId];
+  const layout = useMemo(
+    () => getChartLayout(shownSamples, chart.lines, windowSize, shownNow, CHART_WIDTH, CHART_HEIGHT),
+    [shownSamples, chart, windowSize, shownNow]
+  );
+  const hoverSample = useMemo(() => {
+    if (hoverTime === null) return null;
+    return findNearestSample(shownSamples.filter((sample) => sample.time >= layout.startTime), hoverTime);
+  }, [shownSamples, layout, hoverTime]);
+
+  /**
+   * 数据、图表或悬停位置变化时重绘
+   */
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    drawTimeSeriesChart(ctx, shownSamples, chart.lines, layout, hoverSample);
+  }, [shownSamples, chart, layout, hoverSample]);
+
+  /**
+   * 鼠标位置换算为图表时间（画布可能被 CSS 缩放）
+   */
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * CHART_WIDTH;
+    setHoverTime(xToTime(layout, x));
+  };
+
+  return (
+    <div className="time-series-chart">
+      <div className="chart-controls">
+        <select
+          className="shape-select"
+          value={chartId}
+          onChange={(e) => setChartId(e.target.value as ChartId)}
+        >
+          {Object.values(ChartId).map((id) => (
+            <option key={id} value={id}>{CHARTS[id].label} ({CHARTS[id].unit})</option>
+          ))}
+        </select>
+        <div className="chart-windows">
+          {CHART_WINDOWS.map((size) => (
+            <button
+              key={size}
+              className={`chart-window-button${size === windowSize ? ' active' : ''}`}
+              onClick={() => setWindowSize(size)}
+            >
+              {formatWindow(size)}
+            </button>
+          ))}
+          <button
+            className={`chart-window-button${frozen ? ' active' : ''}`}
+            onClick={() => setFrozen(frozen ? null : { samples, now })}
+          >
+            {frozen ? '继续' : '冻结'}
+          </button>
+        </div>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={CHART_WIDTH}
+        height={CHART_HEIGHT}
+        className="chart-canvas"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverTime(null)}
+      />
+
+      <div className="chart-readout">
+        {hoverSample ? (
+          <>
+            <span>{(hoverSample.time - shownNow).toFixed(1)}s</span>
+            {chart.lines.map(({ key, label, color }) => (
+              <span key={key} style={{ color }}>
+                {label} {hoverSample[key].toFixed(1)}
+              </span>
+            ))}
+          </>
+        ) : (
+          <>
+            {chart.lines.map(({ key, label, color }) => (
+              <span key={key} style={{ color }}>● {label}</span>
+            ))}
+            {frozen ? (
+              <span className="chart-paused">已冻结</span>
+            ) : (
+              !isPlaying && <span className="chart-paused">已暂停</span>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TimeSeriesChart;
@@ -0,0 +1,102 @@
+import audioManager, { SoundType } from '../utils/audio';
+import type { Random } from '../utils/random';
+import { EdgeBehavior } from '../utils/edgeBehaviors';
+import { ObstacleType } from '../utils/obstacles';
+import type { Simulation } from '../simulation/Simulation';
+
+/**
+ * 各类墙面的碰撞音效
+ */
+const EDGE_SOUNDS: Record<EdgeBehavior, SoundType> = {
+  [EdgeBehavior.NORMAL]: SoundType.COLLISION,
+  [EdgeBehavior.BOUNCY]: SoundType.BOING,
+  [EdgeBehavior.STICKY]: SoundType.SPLAT,
+  [EdgeBehavior.BOOST]: SoundType.ZAP,
+  [EdgeBehavior.DEAD]: SoundType.BUZZ,
+  [EdgeBehavior.SCORE]: SoundType.CHIME,
+};
+
+/**
+ * 订阅模拟事件并播放对应的音效，返回取消订阅的函数
+ *
+ * random 用于音调的随机变化，不影响物理模拟。
+ */
+export function subscribeAudio(simulation: Simulation, random: Random): () => void {
+  const unsubscribers = [
+    // 碰撞音效（特殊墙面使用各自的音效）
+    simulation.on('collision', ({ impactSpeed, behavior }) => {
+      const volume = Math.min(impactSpeed / 300, 1) * 0.8 + 0.2;
+      const pitch = 0.8 + random.next() * 0.4; // 随机音调变化
+      audioManager.playSound(EDGE_SOUNDS[behavior], volume, pitch);
+    }),
+
+    simulation.on('ballCollision', ({ impactSpeed }) => {
+      const volume = Math.min(impactSpeed / 300, 1) * 0.6 + 0.1;
+      const pitch = 1.1 + random.next() * 0.4; // 球与球碰撞音调更高
+      audioManager.playSound(SoundType.COLLISION, volume, pitch);
+    }),
+
+    simulation.on('obstacleHit', ({ obstacle, impactSpeed }) => {
+      const volume = Math.min(impactSpeed / 300, 1) * 0.7 + 0.2;
+      if (obstacle.type === ObstacleType.BUMPER) {
+        audioManager.playSound(SoundType.BOING, volume, 1.3 + random.next() * 0.2);
+      } else {
+        const pitch = obstacle.type === ObstacleType.PEG ? 1.6 : 1.2; // 钉子声音更清脆
+        audioManager.playSound(SoundType.COLLISION, volume, pitch + random.next() * 0.2);
+      }
+    }),
+
+    simulation.on('flipperHit', ({ impactSpeed }) => {
+      const volume = Math.min(impactSpeed / 400, 1) * 0.8 + 0.2;
+      audioManager.playSound(SoundType.COLLISION, volume, 0.7 + random.next() * 0.2);
+    }),
+
+    // 点击冲量：点击音效和按冲击力变化的呼啸声
+    simulation.on('impulse', ({ strength }) => {
+      audioManager.playSound(SoundType.CLICK, 0.6, 1.2);
+      audioManager.playSound(SoundType.WHOOSH, 0.4, 1 + strength / 1000);
+    }),
+
+    simulation.on('spawn', () => {
+      audioManager.playSound(SoundType.CLICK, 0.5, 0.9);
+    }),
+
+    simulation.on('drain', () => {
+      audioManager.playSound(SoundType.BUZZ, 0.5, 1);
+    }),
+
+    simulation.on('gameOver', () => {
+      audioManager.playSound(SoundType.BUZZ, 0.8, 0.6);
+    }),
+
+    simulation.on('brickHit', ({ destroyed }) => {
+      audioManager.playSound(SoundType.BRICK, destroyed ? 0.9 : 0.6, destroyed ? 0.8 : 1.2);
+    }),
+
+    simulation.on('powerUpCollect', () => {
+      audioManager.playSound(SoundType.CHIME, 0.7, 1.2);
+    }),
+
+    simulation.on('levelClear', () => {
+      audioManager.playSound(SoundType.CHIME, 1, 0.8);
+    }),
+
+    simulation.on('escape', () => {
+      audioManager.playSound(SoundType.WHOOSH, 0.6, 0.8);
+    }),
+
+    simulation.on('challengeStart', () => {
+      audioManager.playSound(SoundType.CHIME, 0.8, 1.5);
+    }),
+
+    simulation.on('targetHit', () => {
+      audioManager.playSound(SoundType.CHIME, 0.9, 1.3 + random.next() * 0.2);
+    }),
+
+    simulation.on('challengeEnd', () => {
+      audioManager.playSound(SoundType.CHIME, 1, 0.7);
+    }),
+  ];
+
+  return () => unsubscribers.forEach((off) => off());
+}
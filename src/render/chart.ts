@@ -0,0 +1,167 @@
+import type { ChartLine, TimeSample } from '../simulation/timeSeries';
+
+/**
+ * 图表四周留给坐标标注的边距 (pixels)
+ */
+const CHART_PADDING = { left: 36, right: 8, top: 8, bottom: 16 };
+
+/**
+ * 图表的绘制区域和坐标换算
+ */
+export interface ChartLayout {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  startTime: number; // 窗口左端的时间 (s)
+  endTime: number; // 窗口右端的时间 (s)
+  minValue: number;
+  maxValue: number;
+}
+
+/**
+ * 根据窗口内的数据计算图表布局（纵轴从 0 或最小值开始，留出 10% 余量）
+ */
+export function getChartLayout(
+  samples: TimeSample[],
+  lines: ChartLine[],
+  windowSize: number,
+  now: number,
+  width: number,
+  height: number
+): ChartLayout {
+  const startTime = Math.max(now - windowSize, 0);
+  const endTime = Math.max(now, windowSize);
+
+  let minValue = 0;
+  let maxValue = 0;
+  samples.forEach((sample) => {
+    if (sample.time < startTime) return;
+    lines.forEach(({ key }) => {
+      minValue = Math.min(minValue, sample[key]);
+      maxValue = Math.max(maxValue, sample[key]);
+    });
+  });
+  const range = Math.max(maxValue - minValue, 1);
+
+  return {
+    left: CHART_PADDING.left,
+    right: width - CHART_PADDING.right,
+    top: CHART_PADDING.top,
+    bottom: height - CHART_PADDING.bottom,
+    startTime,
+    endTime,
+    minValue: minValue < 0 ? minValue - range * 0.1 : 0,
+    maxValue: maxValue + range * 0.1,
+  };
+}
+
+/**
+ * 时间对应的横坐标
+ */
+export function timeToX(layout: ChartLayout, time: number): number {
+  const fraction = (time - layout.startTime) / Math.max(layout.endTime - layout.startTime, 1e-6);
+  return layout.left + fraction * (layout.right - layout.left);
+}
+
+/**
+ * 横坐标对应的时间
+ */
+export function xToTime(layout: ChartLayout, x: number): number {
+  const fraction = (x - layout.left) / (layout.right - layout.left);
+  return layout.startTime + fraction * (layout.endTime - layout.startTime);
+}
+
+/**
+ * 数值对应的纵坐标
+ */
+function valueToY(layout: ChartLayout, value: number): number {
+  const fraction = (value - layout.minValue) / (layout.maxValue - layout.minValue);
+  return layout.bottom - fraction * (layout.bottom - layout.top);
+}
+
+/**
+ * 格式化坐标轴上的数值
+ */
+function formatAxisValue(value: number): string {
+  return Math.abs(value) >= 1000 ? `${(value / 1000).toFixed(1)}k` : value.toFixed(Math.abs(value) < 10 ? 1 : 0);
+}
+
+/**
+ * 绘制滚动折线图：网格、坐标标注、各条曲线，以及悬停位置的竖线和数据点
+ */
+export function drawTimeSeriesChart(
+  ctx: CanvasRenderingContext2D,
+  samples: TimeSample[],
+  lines: ChartLine[],
+  layout: ChartLayout,
+  hoverSample: TimeSample | null
+) {
+  const { left, right, top, bottom, startTime, endTime, minValue, maxValue } = layout;
+
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.save();
+
+  // 网格和纵轴标注
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.lineWidth = 1;
+  ctx.font = '10px Arial';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  for (let i = 0; i <= 4; i++) {
+    const value = minValue + ((maxValue - minValue) * i) / 4;
+    const y = valueToY(layout, value);
+    ctx.beginPath();
+    ctx.moveTo(left, y);
+    ctx.lineTo(right, y);
+    ctx.stroke();
+    ctx.fillText(formatAxisValue(value), left - 4, y);
+  }
+
+  // 横轴标注：窗口左端相对当前的时间
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  ctx.fillText(`-${Math.round(endTime - startTime)}s`, left, bottom + 3);
+  ctx.textAlign = 'right';
+  ctx.fillText('现在', right, bottom + 3);
+
+  // 曲线（只画窗口内的采样）
+  const visible = samples.filter((sample) => sample.time >= startTime);
+  ctx.lineWidth = 1.5;
+  ctx.lineJoin = 'round';
+  lines.forEach(({ key, color }) => {
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    visible.forEach((sample, index) => {
+      const x = timeToX(layout, sample.time);
+      const y = valueToY(layout, sample[key]);
+      if (index === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    });
+    ctx.stroke();
+  });
+
+  // 悬停位置
+  if (hoverSample) {
+    const x = timeToX(layout, hoverSample.time);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x, top);
+    ctx.lineTo(x, bottom);
+    ctx.stroke();
+
+    lines.forEach(({ key, color }) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(x, valueToY(layout, hoverSample[key]), 3, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,799 @@
+import { getWallSegments } from '../utils/collision';
+import type { CollisionSegment, EdgeGaps, LineSegment } from '../utils/collision';
+import { getShapeVertices } from '../utils/shapes';
+import { FORCE_FIELD_STYLES, ForceFieldType } from '../utils/forceFields';
+import type { ForceField } from '../utils/forceFields';
+import type { ContainerShape } from '../utils/shapes';
+import { Vector } from '../utils/physics';
+import type { Ball, Vector2D } from '../utils/physics';
+import { MATERIALS } from '../utils/materials';
+import { OBSTACLE_STYLES, ObstacleType, getObstacleSegment } from '../utils/obstacles';
+import type { Obstacle } from '../utils/obstacles';
+import { POWER_UP_LIFETIME, POWER_UP_STYLES, getBrickSegment } from '../utils/bricks';
+import type { Brick, PowerUp } from '../utils/bricks';
+import {
+  CHALLENGE_STYLES,
+  ChallengePhase,
+  TARGET_COLOR,
+  formatChallengeScore,
+  getChallengeScore,
+  getChallengeTimeLeft,
+} from '../simulation/challenges';
+import type { ChallengeState, WallTarget } from '../simulation/challenges';
+import { POPUP_LIFETIME } from '../simulation/scoring';
+import type { ScorePopup } from '../simulation/scoring';
+import { TOAST_DURATION } from '../simulation/achievements';
+import type { AchievementToast } from '../simulation/achievements';
+import { HEATMAP_CELL_SIZE, HeatmapFrame } from '../simulation/heatmap';
+import type { HeatCell } from '../simulation/heatmap';
+
+/**
+ * 拖尾点
+ */
+export interface TrailPoint {
+  x: number;
+  y: number;
+  alpha: number;
+}
+
+/**
+ * 绘制动态渐变背景
+ */
+export function drawBackground(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number
+) {
+  const backgroundGradient = ctx.createRadialGradient(
+    width / 2, height / 2, 0,
+    width / 2, height / 2, Math.max(width, height) / 2
+  );
+  const time = Date.now() * 0.001;
+  const r = Math.sin(time * 0.3) * 30 + 20;
+  const g = Math.sin(time * 0.5) * 30 + 20;
+  const b = Math.sin(time * 0.7) * 30 + 30;
+  
+  backgroundGradient.addColorStop(0, `rgb(${r + 10}, ${g + 10}, ${b + 10})`);
+  backgroundGradient.addColorStop(0.5, `rgb(${r}, ${g}, ${b})`);
+  backgroundGradient.addColorStop(1, `rgb(${r - 10}, ${g - 10}, ${b - 5})`);
+  
+  ctx.fillStyle = backgroundGradient;
+  ctx.fillRect(0, 0, width, height);
+}
+
+/**
+ * 沿墙面线段描出路径（相邻线段首尾相接时连成折线，首尾闭合时闭合路径）
+ */
+function traceWalls(ctx: CanvasRenderingContext2D, segments: LineSegment[]) {
+  ctx.beginPath();
+  
+  segments.forEach((segment, index) => {
+    const previous = segments[index - 1];
+    if (!previous || previous.end.x !== segment.start.x || previous.end.y !== segment.start.y) {
+      ctx.moveTo(segment.start.x, segment.start.y);
+    }
+    ctx.lineTo(segment.end.x, segment.end.y);
+  });
+  
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+  if (first && last.end.x === first.start.x && last.end.y === first.start.y) {
+    ctx.closePath();
+  }
+}
+
+/**
+ * 绘制增强版容器（带霓虹灯光效果），color 为 "r, g, b" 形式的颜色，有缺口时墙面断开绘制；
+ * edgeColors 按边序号给出特殊墙面的颜色
+ */
+export function drawContainer(
+  ctx: CanvasRenderingContext2D,
+  shape: ContainerShape,
+  center: Vector2D,
+  radius: number,
+  rotation: number,
+  gaps?: EdgeGaps,
+  color: string = '0, 255, 136',
+  edgeColors: (string | undefined)[] = []
+) {
+  const { x: centerX, y: centerY } = center;
+  const vertices = getShapeVertices(shape, center, radius, rotation);
+  const segments = getWallSegments(vertices, gaps);
+  
+  // 绘制外层发光效果
+  for (let i = 3; i >= 0; i--) {
+    const glowRadius = radius + i * 8;
+    const glowVertices = getShapeVertices(shape, center, glowRadius, rotation);
+    
+    traceWalls(ctx, getWallSegments(glowVertices, gaps));
+    
+    // 渐变发光效果
+    const alpha = (0.15 - i * 0.03) * (0.8 + Math.sin(Date.now() * 0.003) * 0.2);
+    ctx.strokeStyle = `rgba(${color}, ${alpha})`;
+    ctx.lineWidth = 2 + i;
+    ctx.shadowColor = `rgb(${color})`;
+    ctx.shadowBlur = 15 + i * 5;
+    ctx.stroke();
+  }
+  
+  // 重置阴影
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  
+  traceWalls(ctx, segments);
+  
+  // 绘制主要容器轮廓（带脉冲效果）
+  const pulseIntensity = 0.8 + Math.sin(Date.now() * 0.005) * 0.3;
+  ctx.strokeStyle = `rgba(${color}, ${pulseIntensity})`;
+  ctx.lineWidth = 4;
+  ctx.shadowColor = `rgb(${color})`;
+  ctx.shadowBlur = 20;
+  ctx.stroke();
+  
+  // 特殊墙面按各自颜色覆盖绘制
+  segments.forEach((segment) => {
+    const edgeColor = edgeColors[segment.edgeIndex];
+    if (!edgeColor) return;
+    
+    ctx.beginPath();
+    ctx.moveTo(segment.start.x, segment.start.y);
+    ctx.lineTo(segment.end.x, segment.end.y);
+    ctx.strokeStyle = `rgba(${edgeColor}, ${pulseIntensity})`;
+    ctx.lineWidth = 6;
+    ctx.lineCap = 'round';
+    ctx.shadowColor = `rgb(${edgeColor})`;
+    ctx.shadowBlur = 20;
+    ctx.stroke();
+  });
+  ctx.lineCap = 'butt';
+  
+  // 重置阴影
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  
+  // 添加内部渐变背景
+  ctx.beginPath();
+  ctx.moveTo(vertices[0].x, vertices[0].y);
+  
+  for (let i = 1; i < vertices.length; i++) {
+    ctx.lineTo(vertices[i].x, vertices[i].y);
+  }
+  
+  ctx.closePath();
+  
+  const gradient = ctx.createRadialGradient(
+    centerX, centerY, 0,
+    centerX, centerY, radius
+  );
+  gradient.addColorStop(0, `rgba(${color}, 0.08)`);
+  gradient.addColorStop(0.7, `rgba(${color}, 0.04)`);
+  gradient.addColorStop(1, `rgba(${color}, 0.01)`);
+  
+  ctx.fillStyle = gradient;
+  ctx.fill();
+  
+  // 绘制墙面端点的装饰效果
+  segments.flatMap((segment) => [segment.start, segment.end]).forEach((vertex) => {
+    ctx.beginPath();
+    ctx.arc(vertex.x, vertex.y, 3, 0, Math.PI * 2);
+    ctx.fillStyle = `rgba(${color}, ${pulseIntensity * 0.8})`;
+    ctx.shadowColor = `rgb(${color})`;
+    ctx.shadowBlur = 8;
+    ctx.fill();
+  });
+  
+  // 重置阴影
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+}
+
+/**
+ * 绘制障碍物：钉子和弹射器为圆形，横杆为胶囊形；
+ * flash 为弹射器被撞后的闪光强度 (0-1)，选中的障碍物带白色轮廓
+ */
+export function drawObstacle(
+  ctx: CanvasRenderingContext2D,
+  obstacle: Obstacle,
+  center: Vector2D,
+  rotation: number,
+  flash: number,
+  selected: boolean
+) {
+  const { start, end } = getObstacleSegment(obstacle, center, rotation);
+  const { color } = OBSTACLE_STYLES[obstacle.type];
+  const radius = obstacle.radius;
+  
+  ctx.save();
+  ctx.lineCap = 'round';
+  
+  // 选中轮廓
+  if (selected) {
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.lineWidth = radius * 2 + 6;
+    ctx.stroke();
+  }
+  
+  // 主体（胶囊体的轴线加粗绘制，线段退化为点时即为圆）
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.strokeStyle = `rgb(${color})`;
+  ctx.lineWidth = radius * 2;
+  ctx.shadowColor = `rgb(${color})`;
+  ctx.shadowBlur = 10 + flash * 30;
+  ctx.stroke();
+  
+  // 弹射器：内圈和被撞后的闪光
+  if (obstacle.type === ObstacleType.BUMPER) {
+    ctx.shadowBlur = 0;
+    ctx.beginPath();
+    ctx.arc(start.x, start.y, radius * 0.6, 0, Math.PI * 2);
+    ctx.fillStyle = `rgba(255, 255, 255, ${0.3 + flash * 0.7})`;
+    ctx.fill();
+    
+    if (flash > 0) {
+      ctx.beginPath();
+      ctx.arc(start.x, start.y, radius + (1 - flash) * 14, 0, Math.PI * 2);
+      ctx.strokeStyle = `rgba(${color}, ${flash})`;
+      ctx.lineWidth = 3;
+      ctx.stroke();
+    }
+  }
+  
+  ctx.restore();
+}
+
+/**
+ * 砖块按剩余耐久显示的颜色（"r, g, b"），耐久越高越偏紫
+ */
+const BRICK_COLORS = ['255, 210, 80', '255, 120, 80', '200, 80, 255'];
+
+/**
+ * 绘制砖块：胶囊形，颜色随剩余耐久变化，受损的砖块变暗
+ */
+export function drawBrick(
+  ctx: CanvasRenderingContext2D,
+  brick: Brick,
+  center: Vector2D,
+  rotation: number
+) {
+  const { start, end, thickness = 0 } = getBrickSegment(brick, center, rotation);
+  const color = BRICK_COLORS[Math.min(brick.hitPoints, BRICK_COLORS.length) - 1];
+  const health = brick.hitPoints / brick.maxHitPoints;
+  
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.strokeStyle = `rgba(${color}, ${0.5 + health * 0.5})`;
+  ctx.lineWidth = thickness * 2;
+  ctx.shadowColor = `rgb(${color})`;
+  ctx.shadowBlur = 8;
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * 绘制道具：带符号的发光圆，快消失时闪烁
+ */
+export function drawPowerUp(
+  ctx: CanvasRenderingContext2D,
+  powerUp: PowerUp,
+  radius: number
+) {
+  const { color, symbol } = POWER_UP_STYLES[powerUp.type];
+  const { x, y } = powerUp.position;
+  const blinking = powerUp.remaining < POWER_UP_LIFETIME * 0.25;
+  const alpha = blinking ? 0.4 + Math.abs(Math.sin(Date.now() * 0.01)) * 0.6 : 1;
+  
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = `rgba(${color}, 0.3)`;
+  ctx.fill();
+  ctx.strokeStyle = `rgb(${color})`;
+  ctx.lineWidth = 2;
+  ctx.shadowColor = `rgb(${color})`;
+  ctx.shadowBlur = 15;
+  ctx.stroke();
+  
+  ctx.shadowBlur = 0;
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 10px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(symbol, x, y);
+  ctx.restore();
+}
+
+/**
+ * 绘制弹球挡板：胶囊形主体和转轴，按下时更亮
+ */
+export function drawFlipper(
+  ctx: CanvasRenderingContext2D,
+  segment: CollisionSegment,
+  pressed: boolean
+) {
+  const { start, end, thickness = 0 } = segment;
+  const color = pressed ? '255, 240, 120' : '255, 200, 60';
+  
+  ctx.save();
+  ctx.lineCap = 'round';
+  
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.strokeStyle = `rgb(${color})`;
+  ctx.lineWidth = thickness * 2;
+  ctx.shadowColor = `rgb(${color})`;
+  ctx.shadowBlur = pressed ? 25 : 12;
+  ctx.stroke();
+  
+  // 转轴
+  ctx.shadowBlur = 0;
+  ctx.beginPath();
+  ctx.arc(start.x, start.y, thickness * 0.5, 0, Math.PI * 2);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.fill();
+  
+  ctx.restore();
+}
+
+/**
+ * 绘制墙上的发光目标（随容器旋转，呼吸式闪烁）
+ */
+export function drawTarget(
+  ctx: CanvasRenderingContext2D,
+  target: WallTarget,
+  shape: ContainerShape,
+  center: Vector2D,
+  radius: number,
+  rotation: number
+) {
+  const vertices = getShapeVertices(shape, center, radius, rotation);
+  if (target.edgeIndex >= vertices.length) return;
+  
+  const start = vertices[target.edgeIndex];
+  const end = vertices[(target.edgeIndex + 1) % vertices.length];
+  const pointAt = (t: number) => ({
+    x: start.x + (end.x - start.x) * t,
+    y: start.y + (end.y - start.y) * t,
+  });
+  const from = pointAt(target.position - target.width / 2);
+  const to = pointAt(target.position + target.width / 2);
+  const pulse = 0.6 + Math.abs(Math.sin(Date.now() * 0.005)) * 0.4;
+  
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.strokeStyle = `rgba(${TARGET_COLOR}, ${pulse})`;
+  ctx.lineWidth = 8;
+  ctx.shadowColor = `rgb(${TARGET_COLOR})`;
+  ctx.shadowBlur = 25 * pulse;
+  ctx.stroke();
+  ctx.restore();
+}
+
+/**
+ * 绘制撞击点上方飘起的得分提示（逐渐淡出）
+ */
+export function drawScorePopup(ctx: CanvasRenderingContext2D, popup: ScorePopup) {
+  const alpha = Math.max(1 - popup.age / POPUP_LIFETIME, 0);
+  
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.font = 'bold 14px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.shadowColor = `rgb(${popup.color})`;
+  ctx.shadowBlur = 8;
+  ctx.fillStyle = `rgb(${popup.color})`;
+  ctx.fillText(popup.text, popup.position.x, popup.position.y);
+  ctx.restore();
+}
+
+/**
+ * 热力图的颜色：撞击少时为蓝色，逐渐过渡到黄色和红色（t 为 0 到 1）
+ */
+function getHeatColor(t: number): string {
+  const hue = 240 - t * 240;
+  return `hsla(${hue}, 100%, 55%, ${0.25 + t * 0.5})`;
+}
+
+/**
+ * 绘制撞击热力图
+ *
+ * 旋转参考系下的格子按所属容器当前的旋转角度（rotations 按容器层索引）转到画面上，
+ * 撞击次数按对数映射到颜色，避免少数热点盖过其余分布。
+ */
+export function drawHeatmap(
+  ctx: CanvasRenderingContext2D,
+  cells: HeatCell[],
+  maxCount: number,
+  frame: HeatmapFrame,
+  center: Vector2D,
+  rotations: number[]
+) {
+  if (maxCount === 0) return;
+  const scale = Math.log(1 + maxCount);
+  
+  ctx.save();
+  ctx.globalCompositeOperation = 'lighter';
+  
+  cells.forEach(cell => {
+    const position = frame === HeatmapFrame.LOCAL
+      ? Vector.add(center, Vector.rotate({ x: cell.x, y: cell.y }, rotations[cell.ringIndex] ?? 0))
+      : { x: cell.x, y: cell.y };
+    
+    ctx.fillStyle = getHeatColor(Math.log(1 + cell.count) / scale);
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, HEATMAP_CELL_SIZE * 0.75, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  
+  ctx.restore();
+}
+
+/**
+ * 绘制成就解锁提示：从画布顶部滑入，停留后淡出
+ */
+export function drawAchievementToast(ctx: CanvasRenderingContext2D, toast: AchievementToast, width: number) {
+  const { icon, title, description } = toast.achievement;
+  const slideIn = Math.min(toast.age / 0.3, 1);
+  const fadeOut = Math.min((TOAST_DURATION - toast.age) / 0.5, 1);
+  const alpha = Math.max(Math.min(slideIn, fadeOut), 0);
+  const boxWidth = 280;
+  const boxHeight = 56;
+  const x = (width - boxWidth) / 2;
+  const y = -boxHeight + (boxHeight + 16) * (1 - (1 - slideIn) ** 3);
+  
+  ctx.save();
+  ctx.globalAlpha = alpha;
+  ctx.fillStyle = 'rgba(20, 20, 40, 0.85)';
+  ctx.strokeStyle = '#ffd700';
+  ctx.lineWidth = 2;
+  ctx.shadowColor = '#ffd700';
+  ctx.shadowBlur = 16;
+  ctx.beginPath();
+  ctx.roundRect(x, y, boxWidth, boxHeight, 12);
+  ctx.fill();
+  ctx.stroke();
+  ctx.shadowBlur = 0;
+  
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'center';
+  ctx.font = '26px Arial';
+  ctx.fillText(icon, x + 32, y + boxHeight / 2);
+  
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#ffd700';
+  ctx.font = 'bold 15px Arial';
+  ctx.fillText(`成就解锁：${title}`, x + 60, y + 20);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.font = '12px Arial';
+  ctx.fillText(description, x + 60, y + 38);
+  ctx.restore();
+}
+
+/**
+ * 绘制挑战的倒计时、进行中的计分条和结算画面
+ */
+export function drawChallengeOverlay(
+  ctx: CanvasRenderingContext2D,
+  challenge: ChallengeState,
+  width: number,
+  height: number,
+  best: number | null
+) {
+  const { label } = CHALLENGE_STYLES[challenge.mode];
+  const score = formatChallengeScore(challenge.mode, getChallengeScore(challenge));
+  
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  
+  switch (challenge.phase) {
+    case ChallengePhase.COUNTDOWN: {
+      // 每一秒的数字由大变小
+      const fraction = challenge.countdown % 1;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+      ctx.font = `bold ${Math.round(48 + fraction * 32)}px Arial`;
+      ctx.shadowColor = '#00ff88';
+      ctx.shadowBlur = 20;
+      ctx.fillText(`${Math.ceil(challenge.countdown)}`, width / 2, height / 2);
+      ctx.shadowBlur = 0;
+      ctx.font = '18px Arial';
+      ctx.fillText(label, width / 2, height / 2 - 70);
+      break;
+    }
+    case ChallengePhase.RUNNING: {
+      const timeLeft = getChallengeTimeLeft(challenge);
+      const status = timeLeft === null ? `坚持 ${score}` : `${score} · 剩余 ${Math.ceil(timeLeft)}s`;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.font = 'bold 16px Arial';
+      ctx.fillText(`${label}  ${status}`, width / 2, 24);
+      break;
+    }
+    case ChallengePhase.ENDED: {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(width / 2 - 150, height / 2 - 90, 300, 180);
+      ctx.strokeStyle = 'rgba(0, 255, 136, 0.8)';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(width / 2 - 150, height / 2 - 90, 300, 180);
+      
+      ctx.fillStyle = '#ffffff';
+      ctx.font = 'bold 28px Arial';
+      ctx.fillText(`${label}结束`, width / 2, height / 2 - 50);
+      ctx.fillStyle = '#00ff88';
+      ctx.font = 'bold 36px Arial';
+      ctx.fillText(score, width / 2, height / 2);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.font = '16px Arial';
+      if (best !== null) {
+        ctx.fillText(`最佳 ${formatChallengeScore(challenge.mode, best)}`, width / 2, height / 2 + 38);
+      }
+      ctx.fillText('点击画布再来一次', width / 2, height / 2 + 66);
+      break;
+    }
+  }
+  
+  ctx.restore();
+}
+
+/**
+ * 绘制力场（淡淡的霓虹叠加层），选中的力场轮廓更亮
+ */
+export function drawForceField(
+  ctx: CanvasRenderingContext2D,
+  field: ForceField,
+  selected: boolean
+) {
+  const { position, radius, type, strength, angle } = field;
+  const { color } = FORCE_FIELD_STYLES[type];
+  const time = Date.now() * 0.001;
+  
+  ctx.save();
+  
+  // 范围内的径向渐变
+  const gradient = ctx.createRadialGradient(
+    position.x, position.y, 0,
+    position.x, position.y, radius
+  );
+  gradient.addColorStop(0, `rgba(${color}, 0.12)`);
+  gradient.addColorStop(1, `rgba(${color}, 0)`);
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(position.x, position.y, radius, 0, Math.PI * 2);
+  ctx.fill();
+  
+  // 虚线边界（缓慢流动）
+  ctx.setLineDash([6, 8]);
+  ctx.lineDashOffset = -time * 20;
+  ctx.strokeStyle = `rgba(${color}, ${selected ? 0.9 : 0.35})`;
+  ctx.lineWidth = selected ? 2 : 1;
+  ctx.shadowColor = `rgb(${color})`;
+  ctx.shadowBlur = selected ? 12 : 6;
+  ctx.stroke();
+  ctx.setLineDash([]);
+  
+  // 类型标记（限制在力场范围内）
+  ctx.beginPath();
+  ctx.arc(position.x, position.y, radius, 0, Math.PI * 2);
+  ctx.clip();
+  ctx.shadowBlur = 0;
+  ctx.strokeStyle = `rgba(${color}, 0.6)`;
+  ctx.lineWidth = 1.5;
+  if (type === ForceFieldType.ATTRACTOR || type === ForceFieldType.REPELLER) {
+    // 向内或向外流动的圆环
+    const phase = (time * 0.6) % 1;
+    for (let i = 0; i < 3; i++) {
+      const t = (phase + i / 3) % 1;
+      const ringRadius = radius * (type === ForceFieldType.ATTRACTOR ? 1 - t : t);
+      ctx.globalAlpha = Math.sin(t * Math.PI) * 0.6;
+      ctx.beginPath();
+      ctx.arc(position.x, position.y, ringRadius, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+  } else if (type === ForceFieldType.VORTEX) {
+    // 绕中心转动的弧线
+    const spin = time * Math.sign(strength || 1) * 2;
+    for (let i = 0; i < 3; i++) {
+      const start = spin + (i * Math.PI * 2) / 3;
+      ctx.beginPath();
+      ctx.arc(position.x, position.y, radius * (0.35 + i * 0.2), start, start + Math.PI * 0.6);
+      ctx.stroke();
+    }
+  } else {
+    // 沿风向移动的短线
+    const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+    const normal = { x: -direction.y, y: direction.x };
+    for (let i = -2; i <= 2; i++) {
+      const along = ((time * 60 + i * 37) % (radius * 1.6)) - radius * 0.8;
+      const x = position.x + normal.x * i * radius * 0.3 + direction.x * along;
+      const y = position.y + normal.y * i * radius * 0.3 + direction.y * along;
+      ctx.beginPath();
+      ctx.moveTo(x, y);
+      ctx.lineTo(x + direction.x * 14, y + direction.y * 14);
+      ctx.stroke();
+    }
+  }
+  
+  // 中心拖动把手
+  ctx.globalAlpha = 1;
+  ctx.beginPath();
+  ctx.arc(position.x, position.y, selected ? 6 : 4, 0, Math.PI * 2);
+  ctx.fillStyle = `rgba(${color}, 0.9)`;
+  ctx.fill();
+  
+  ctx.restore();
+}
+
+/**
+ * 把 #rrggbb 颜色转换为带透明度的 rgba 字符串
+ */
+function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+/**
+ * 绘制增强版小球（带拖尾和发光效果），颜色取自小球材质，拖尾按小球 id 记录在 trails 中
+ */
+export function drawBall(
+  ctx: CanvasRenderingContext2D,
+  ballState: Ball,
+  trails: Map<number, TrailPoint[]>
+) {
+  const { id, position, radius, velocity } = ballState;
+  const { color, glow, shade } = MATERIALS[ballState.material];
+  
+  // 更新拖尾（每个小球独立记录）
+  let trail = trails.get(id) ?? [];
+  trail.unshift({ x: position.x, y: position.y, alpha: 1.0 });
+  
+  // 限制拖尾长度
+  const maxTrailLength = 15;
+  if (trail.length > maxTrailLength) {
+    trail = trail.slice(0, maxTrailLength);
+  }
+  trails.set(id, trail);
+  
+  // 更新拖尾透明度
+  trail.forEach((point, index) => {
+    point.alpha = 1.0 - (index / maxTrailLength);
+  });
+  
+  // 绘制拖尾
+  trail.forEach((point, index) => {
+    if (index === 0) return; // 跳过当前位置
+    
+    const trailRadius = radius * (1 - index / maxTrailLength) * 0.8;
+    const alpha = point.alpha * 0.6;
+    
+    if (trailRadius > 0.5 && alpha > 0.05) {
+      ctx.save();
+      ctx.globalAlpha = alpha;
+      
+      // 拖尾渐变
+      const trailGradient = ctx.createRadialGradient(
+        point.x, point.y, 0,
+        point.x, point.y, trailRadius * 2
+      );
+      trailGradient.addColorStop(0, color);
+      trailGradient.addColorStop(0.5, glow);
+      trailGradient.addColorStop(1, 'transparent');
+      
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, trailRadius, 0, 2 * Math.PI);
+      ctx.fillStyle = trailGradient;
+      ctx.fill();
+      
+      ctx.restore();
+    }
+  });
+  
+  // 计算速度大小用于发光强度
+  const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y);
+  const glowIntensity = Math.min(speed / 300, 1.0) * 0.8 + 0.3;
+  
+  // 绘制外层发光效果
+  for (let i = 3; i >= 0; i--) {
+    ctx.save();
+    ctx.globalAlpha = glowIntensity * (0.3 - i * 0.06);
+    
+    const glowRadius = radius + i * 6;
+    const glowGradient = ctx.createRadialGradient(
+      position.x, position.y, 0,
+      position.x, position.y, glowRadius
+    );
+    glowGradient.addColorStop(0, color);
+    glowGradient.addColorStop(0.4, glow);
+    glowGradient.addColorStop(1, 'transparent');
+    
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, glowRadius, 0, 2 * Math.PI);
+    ctx.fillStyle = glowGradient;
+    ctx.fill();
+    
+    ctx.restore();
+  }
+  
+  // 绘制小球主体
+  ctx.beginPath();
+  ctx.arc(position.x, position.y, radius, 0, 2 * Math.PI);
+  
+  // 创建径向渐变
+  const gradient = ctx.createRadialGradient(
+    position.x - radius * 0.3,
+    position.y - radius * 0.3,
+    0,
+    position.x,
+    position.y,
+    radius
+  );
+  gradient.addColorStop(0, '#ffffff');
+  gradient.addColorStop(0.3, color);
+  gradient.addColorStop(0.8, glow);
+  gradient.addColorStop(1, shade);
+  
+  ctx.fillStyle = gradient;
+  
+  // 添加动态阴影效果
+  ctx.shadowColor = withAlpha(glow, glowIntensity);
+  ctx.shadowBlur = 15 + speed / 30;
+  ctx.shadowOffsetX = 3;
+  ctx.shadowOffsetY = 3;
+  
+  ctx.fill();
+  
+  // 绘制小球内部高光
+  ctx.save();
+  ctx.globalAlpha = 0.8;
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  
+  const highlightGradient = ctx.createRadialGradient(
+    position.x - radius * 0.4,
+    position.y - radius * 0.4,
+    0,
+    position.x - radius * 0.4,
+    position.y - radius * 0.4,
+    radius * 0.6
+  );
+  highlightGradient.addColorStop(0, 'rgba(255, 255, 255, 0.8)');
+  highlightGradient.addColorStop(1, 'rgba(255, 255, 255, 0)');
+  
+  ctx.beginPath();
+  ctx.arc(position.x - radius * 0.3, position.y - radius * 0.3, radius * 0.4, 0, 2 * Math.PI);
+  ctx.fillStyle = highlightGradient;
+  ctx.fill();
+  
+  ctx.restore();
+  
+  // 绘制随自转转动的高光条，转得越快越亮
+  const spinIntensity = Math.min(Math.abs(ballState.angularVelocity) / 30, 1);
+  ctx.save();
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  ctx.globalAlpha = 0.35 + spinIntensity * 0.5;
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = Math.max(radius * 0.18, 1);
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.arc(position.x, position.y, radius * 0.65, ballState.angle - 0.5, ballState.angle + 0.5);
+  ctx.stroke();
+  ctx.restore();
+  
+  // 重置阴影
+  ctx.shadowColor = 'transparent';
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetX = 0;
+  ctx.shadowOffsetY = 0;
+}
@@ -0,0 +1,260 @@
+import { getShapeSides } from '../utils/shapes';
+import type { Ball } from '../utils/physics';
+import { readStorage, writeStorage } from '../utils/storage';
+import { createGameStats, updateGameStats } from './stats';
+import type { GameStats } from './stats';
+import { MAX_ROTATION_SPEED } from './types';
+import type { Simulation } from './Simulation';
+
+/**
+ * 成就
+ */
+export const AchievementId = {
+  NO_HANDS: 'noHands', // 不点击连续弹跳 100 次
+  SPEED_DEMON: 'speedDemon', // 速度超过 800 px/s
+  GRAND_TOUR: 'grandTour', // 按顺序依次撞到每一条边
+  IRON_NERVES: 'ironNerves', // 在最高转速下坚持 5 分钟
+} as const;
+
+export type AchievementId = typeof AchievementId[keyof typeof AchievementId];
+
+/**
+ * 成就判定用到的本局统计：统计面板的数据加上由事件累计的计数
+ */
+export interface AchievementStats extends GameStats {
+  bouncesSinceClick: number; // 上次点击后撞墙的次数
+  edgeStreak: number; // 按顺序（顺时针或逆时针）连续撞到的边数
+  edgeCount: number; // 最外层容器的边数
+  maxRotationTime: number; // 以最高转速持续旋转的时间 (s)
+}
+
+/**
+ * 成就定义：progress 返回 0 到 1 的进度，达到 1 即解锁
+ */
+export interface Achievement {
+  id: AchievementId;
+  icon: string;
+  title: string;
+  description: string;
+  progress: (stats: AchievementStats) => number;
+}
+
+/**
+ * 所有成就
+ */
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: AchievementId.NO_HANDS,
+    icon: '🙌',
+    title: '放手一搏',
+    description: '不点击画布，连续撞墙 100 次',
+    progress: (stats) => stats.bouncesSinceClick / 100,
+  },
+  {
+    id: AchievementId.SPEED_DEMON,
+    icon: '💨',
+    title: '风驰电掣',
+    description: '小球速度超过 800 px/s',
+    progress: (stats) => stats.maxSpeed / 800,
+  },
+  {
+    id: AchievementId.GRAND_TOUR,
+    icon: '🧭',
+    title: '环游一周',
+    description: '按顺序依次撞到容器的每一条边',
+    progress: (stats) => stats.edgeStreak / stats.edgeCount,
+  },
+  {
+    id: AchievementId.IRON_NERVES,
+    icon: '🌀',
+    title: '钢铁神经',
+    description: `以最高转速 (${MAX_ROTATION_SPEED} rad/s) 坚持 5 分钟`,
+    progress: (stats) => stats.maxRotationTime / 300,
+  },
+];
+
+/**
+ * 画布上的成就解锁提示
+ */
+export interface AchievementToast {
+  achievement: Achievement;
+  age: number; // 已显示的时间 (s)
+}
+
+/**
+ * 解锁提示的显示时间 (s)，包括滑入和淡出
+ */
+export const TOAST_DURATION = 3.5;
+
+/**
+ * 已解锁的成就和解锁时间 (ISO 8601)
+ */
+export type UnlockedAchievements = Partial<Record<AchievementId, string>>;
+
+/**
+ * 成就存储格式版本
+ */
+const ACHIEVEMENTS_VERSION = 1;
+
+/**
+ * 成就在本地存储中的键名
+ */
+const STORAGE_KEY = 'hexagon-bounce.achievements';
+
+/**
+ * 从本地存储读取已解锁的成就，没有或格式不对时返回空
+ */
+export function loadAchievements(): UnlockedAchievements {
+  const json = readStorage(STORAGE_KEY);
+  if (json === null) return {};
+
+  try {
+    const data = JSON.parse(json);
+    if (data?.version !== ACHIEVEMENTS_VERSION || typeof data.unlocked !== 'object') return {};
+    return data.unlocked as UnlockedAchievements;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 把已解锁的成就写入本地存储
+ */
+export function saveAchievements(unlocked: UnlockedAchievements): boolean {
+  return writeStorage(STORAGE_KEY, JSON.stringify({ version: ACHIEVEMENTS_VERSION, unlocked }));
+}
+
+/**
+ * 成就进度跟踪
+ *
+ * 订阅模拟事件累计计数，每帧用小球状态更新统计并检查成就；
+ * 新游戏开始（回到第一轮）时清空本局统计，已解锁的成就不受影响。
+ */
+export class AchievementTracker {
+  private stats: AchievementStats = AchievementTracker.createStats();
+  private unlocked: UnlockedAchievements;
+  private onUnlock: ((achievement: Achievement) => void) | null = null;
+  private lastEdge: number | null = null;
+  private edgeDirection: number = 0; // 1 为边序号递增方向，-1 为递减方向，0 为尚未确定
+
+  constructor(unlocked: UnlockedAchievements) {
+    this.unlocked = { ...unlocked };
+  }
+
+  private static createStats(): AchievementStats {
+    return {
+      ...createGameStats(),
+      bouncesSinceClick: 0,
+      edgeStreak: 0,
+      edgeCount: 6,
+      maxRotationTime: 0,
+    };
+  }
+
+  /**
+   * 订阅模拟事件，解锁成就时调用 onUnlock，返回取消订阅的函数
+   */
+  subscribe(simulation: Simulation, onUnlock: (achievement: Achievement) => void): () => void {
+    this.reset();
+    this.onUnlock = onUnlock;
+
+    const unsubscribers = [
+      simulation.on('collision', ({ ringIndex, edgeIndex }) => {
+        this.stats.bounces += 1;
+        this.stats.bouncesSinceClick += 1;
+        if (ringIndex === 0) {
+          this.recordEdge(edgeIndex, getShapeSides(simulation.getConfig().shape));
+        }
+      }),
+      simulation.on('impulse', () => {
+        this.stats.bouncesSinceClick = 0;
+      }),
+      simulation.on('roundStart', ({ round }) => {
+        if (round === 1) this.reset();
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach((off) => off());
+      this.onUnlock = null;
+    };
+  }
+
+  /**
+   * 推进本局时间，更新统计并检查成就
+   *
+   * 游戏结束等不计时的阶段应传入 0；转速低于上限时最高转速计时清零。
+   */
+  update(deltaTime: number, balls: Ball[], rotationSpeed: number) {
+    if (deltaTime <= 0) return;
+
+    const atMaxRotation = Math.abs(rotationSpeed) >= MAX_ROTATION_SPEED && balls.length > 0;
+    this.stats = {
+      ...this.stats,
+      ...updateGameStats(this.stats, balls, this.stats.bounces, this.stats.totalTime + deltaTime),
+      maxRotationTime: atMaxRotation ? this.stats.maxRotationTime + deltaTime : 0,
+    };
+
+    ACHIEVEMENTS.forEach((achievement) => {
+      if (this.unlocked[achievement.id] || achievement.progress(this.stats) < 1) return;
+      this.unlocked = { ...this.unlocked, [achievement.id]: new Date().toISOString() };
+      this.onUnlock?.(achievement);
+    });
+  }
+
+  getStats(): AchievementStats {
+    return this.stats;
+  }
+
+  /**
+   * 各成就的进度（已解锁的为 1）
+   */
+  getProgress(): Record<AchievementId, number> {
+    return Object.fromEntries(
+      ACHIEVEMENTS.map((achievement) => [
+        achievement.id,
+        this.unlocked[achievement.id] ? 1 : Math.min(achievement.progress(this.stats), 1),
+      ])
+    ) as Record<AchievementId, number>;
+  }
+
+  getUnlocked(): UnlockedAchievements {
+    return this.unlocked;
+  }
+
+  /**
+   * 清空本局统计
+   */
+  reset() {
+    this.stats = AchievementTracker.createStats();
+    this.lastEdge = null;
+    this.edgeDirection = 0;
+  }
+
+  /**
+   * 记录撞到的外层边：与上一条边相邻且方向一致时连续数加一，
+   * 反复撞同一条边不打断连续，撞到不相邻的边则从这条边重新开始
+   */
+  private recordEdge(edgeIndex: number, sides: number) {
+    const last = this.lastEdge;
+    this.lastEdge = edgeIndex;
+    this.stats.edgeCount = sides;
+
+    if (last === edgeIndex) return;
+
+    const offset = last === null ? 0 : (edgeIndex - last + sides) % sides;
+    const step = offset === 1 ? 1 : offset === sides - 1 ? -1 : 0;
+
+    if (step === 0) {
+      this.stats.edgeStreak = 1;
+      this.edgeDirection = 0;
+    } else if (this.edgeDirection === 0 || step === this.edgeDirection) {
+      this.stats.edgeStreak += 1;
+      this.edgeDirection = step;
+    } else {
+      // 换了方向：从上一条边重新数起
+      this.stats.edgeStreak = 2;
+      this.edgeDirection = step;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import type { Random } from '../utils/random';
+import { GameMode } from './types';
+
+/**
+ * 挑战的阶段：开始前倒计时、进行中、已结束
+ */
+export const ChallengePhase = {
+  COUNTDOWN: 'countdown',
+  RUNNING: 'running',
+  ENDED: 'ended',
+} as const;
+
+export type ChallengePhase = typeof ChallengePhase[keyof typeof ChallengePhase];
+
+/**
+ * 挑战模式
+ */
+export type ChallengeMode = typeof GameMode.TIMED | typeof GameMode.TARGETS | typeof GameMode.SURVIVAL;
+
+/**
+ * 各挑战模式的显示名称和成绩单位
+ */
+export const CHALLENGE_STYLES: Record<ChallengeMode, { label: string; unit: string }> = {
+  [GameMode.TIMED]: { label: '限时挑战', unit: '次' },
+  [GameMode.TARGETS]: { label: '目标模式', unit: '个' },
+  [GameMode.SURVIVAL]: { label: '生存模式', unit: 's' },
+};
+
+/**
+ * 目标的颜色（"r, g, b"）
+ */
+export const TARGET_COLOR = '255, 220, 60';
+
+/**
+ * 墙上的目标：位于最外层容器第 edgeIndex 条边上，随容器旋转
+ */
+export interface WallTarget {
+  id: number;
+  edgeIndex: number;
+  position: number; // 目标中点在边上的位置 (0-1)
+  width: number; // 目标宽度占边长的比例
+}
+
+/**
+ * 挑战进度
+ */
+export interface ChallengeState {
+  mode: ChallengeMode;
+  phase: ChallengePhase;
+  countdown: number; // 开始前剩余的倒计时 (s)
+  elapsed: number; // 已进行的时间 (s)
+  bounces: number; // 小球撞墙次数
+  targetsHit: number;
+  targets: WallTarget[];
+  nextTargetId: number;
+  slowTime: number; // 生存模式下速度持续低于阈值的时间 (s)
+}
+
+/**
+ * 开始前的倒计时 (s)
+ */
+export const CHALLENGE_COUNTDOWN = 3;
+
+/**
+ * 限时挑战和目标模式的时长 (s)
+ */
+export const CHALLENGE_DURATION = 60;
+
+/**
+ * 目标模式同时存在的目标数量和目标宽度（占边长的比例）
+ */
+export const TARGET_COUNT = 2;
+const TARGET_WIDTH = 0.3;
+
+/**
+ * 生存模式：最快的小球低于该速度 (pixels/s) 超过宽限时间 (s) 即失败
+ */
+export const SURVIVAL_MIN_SPEED = 200;
+export const SURVIVAL_GRACE = 1.5;
+
+/**
+ * 是否为带倒计时和结算的挑战模式
+ */
+export function isChallengeMode(mode: GameMode): mode is ChallengeMode {
+  return mode === GameMode.TIMED || mode === GameMode.TARGETS || mode === GameMode.SURVIVAL;
+}
+
+/**
+ * 创建处于倒计时阶段的挑战
+ */
+export function createChallengeState(mode: ChallengeMode): ChallengeState {
+  return {
+    mode,
+    phase: ChallengePhase.COUNTDOWN,
+    countdown: CHALLENGE_COUNTDOWN,
+    elapsed: 0,
+    bounces: 0,
+    targetsHit: 0,
+    targets: [],
+    nextTargetId: 0,
+    slowTime: 0,
+  };
+}
+
+/**
+ * 在随机的边上随机位置生成一个目标（不与已有目标在同一条边上）
+ */
+export function spawnTarget(state: ChallengeState, sides: number, rng: Random): ChallengeState {
+  const occupied = new Set(state.targets.map((target) => target.edgeIndex));
+  const free = Array.from({ length: sides }, (_, index) => index).filter((index) => !occupied.has(index));
+  const edges = free.length > 0 ? free : Array.from({ length: sides }, (_, index) => index);
+
+  const target: WallTarget = {
+    id: state.nextTargetId,
+    edgeIndex: edges[Math.floor(rng.next() * edges.length)],
+    position: rng.range(TARGET_WIDTH / 2, 1 - TARGET_WIDTH / 2),
+    width: TARGET_WIDTH,
+  };
+
+  return { ...state, targets: [...state.targets, target], nextTargetId: state.nextTargetId + 1 };
+}
+
+/**
+ * 撞墙点是否落在目标上（param 为撞击点在边上的位置 0-1）
+ */
+export function isTargetHit(target: WallTarget, edgeIndex: number, param: number): boolean {
+  return target.edgeIndex === edgeIndex && Math.abs(param - target.position) <= target.width / 2;
+}
+
+/**
+ * 挑战成绩：限时挑战为撞墙次数，目标模式为命中目标数，生存模式为坚持的秒数
+ */
+export function getChallengeScore(state: ChallengeState): number {
+  switch (state.mode) {
+    case GameMode.TARGETS:
+      return state.targetsHit;
+    case GameMode.SURVIVAL:
+      return Math.floor(state.elapsed * 10) / 10;
+    default:
+      return state.bounces;
+  }
+}
+
+/**
+ * 挑战剩余时间 (s)，生存模式没有时间限制时返回 null
+ */
+export function getChallengeTimeLeft(state: ChallengeState): number | null {
+  if (state.mode === GameMode.SURVIVAL) return null;
+  return Math.max(CHALLENGE_DURATION - state.elapsed, 0);
+}
+
+/**
+ * 格式化挑战成绩（生存模式保留一位小数）
+ */
+export function formatChallengeScore(mode: ChallengeMode, score: number): string {
+  const { unit } = CHALLENGE_STYLES[mode];
+  return mode === GameMode.SURVIVAL ? `${score.toFixed(1)}${unit}` : `${score} ${unit}`;
+}
@@ -0,0 +1,47 @@
+/**
+ * 事件处理函数类型
+ */
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * 类型安全的事件发射器
+ *
+ * Events 为事件名到事件数据类型的映射，订阅和发布时都会做类型检查。
+ */
+export class EventEmitter<Events extends object> {
+  private handlers: { [K in keyof Events]?: Set<EventHandler<Events[K]>> } = {};
+  private muted: boolean = false;
+
+  /**
+   * 订阅事件，返回取消订阅的函数
+   */
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    const set = this.handlers[event] ?? new Set<EventHandler<Events[K]>>();
+    set.add(handler);
+    this.handlers[event] = set;
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * 取消订阅
+   */
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>) {
+    this.handlers[event]?.delete(handler);
+  }
+
+  /**
+   * 发布事件
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    if (this.muted) return;
+    this.handlers[event]?.forEach((handler) => handler(payload));
+  }
+
+  /**
+   * 静音：静音期间发布的事件会被丢弃
+   */
+  setMuted(muted: boolean) {
+    this.muted = muted;
+  }
+}
@@ -0,0 +1,208 @@
+import { Vector } from '../utils/physics';
+import type { Vector2D } from '../utils/physics';
+import type { Simulation } from './Simulation';
+
+/**
+ * 热力图的参考系
+ */
+export const HeatmapFrame = {
+  LOCAL: 'local', // 容器的旋转参考系：撞击点跟着墙面一起转
+  WORLD: 'world', // 世界坐标：撞击点固定在画面上
+} as const;
+
+export type HeatmapFrame = typeof HeatmapFrame[keyof typeof HeatmapFrame];
+
+/**
+ * 一次撞墙的记录
+ */
+export interface ImpactPoint {
+  tick: number;
+  ringIndex: number;
+  edgeIndex: number;
+  world: Vector2D; // 撞击点的世界坐标
+  local: Vector2D; // 撞击点在所属容器未旋转时相对中心的位置
+  impactSpeed: number;
+  impulse: number; // 法向冲量（质量 × 撞击速度）
+}
+
+/**
+ * 热力图的一个格子，坐标为格子中心（旋转参考系下相对容器中心，世界坐标下为画布坐标）
+ */
+export interface HeatCell {
+  ringIndex: number;
+  x: number;
+  y: number;
+  count: number;
+}
+
+/**
+ * 单条边的撞击统计
+ */
+export interface EdgeImpactStats {
+  ringIndex: number; // 0 为最外层容器，之后依次为各内层容器
+  edgeIndex: number;
+  hits: number;
+  impulse: number; // 冲量合计
+  maxImpactSpeed: number;
+}
+
+/**
+ * 热力图格子的边长 (pixels)
+ */
+export const HEATMAP_CELL_SIZE = 8;
+
+/**
+ * 保留用于导出的撞击点数量上限（格子和边的统计不受限制）
+ */
+const MAX_IMPACT_POINTS = 5000;
+
+/**
+ * 导出格式版本
+ */
+const HEATMAP_EXPORT_VERSION = 1;
+
+/**
+ * 撞击分布统计
+ *
+ * 订阅碰撞事件，把撞击点同时累计到容器的旋转参考系和世界坐标的格子中，并按边统计撞击次数和冲量。
+ */
+export class CollisionHeatmap {
+  private points: ImpactPoint[] = [];
+  private cells: Record<HeatmapFrame, Map<string, HeatCell>> = {
+    [HeatmapFrame.LOCAL]: new Map(),
+    [HeatmapFrame.WORLD]: new Map(),
+  };
+  private maxCounts: Record<HeatmapFrame, number> = { [HeatmapFrame.LOCAL]: 0, [HeatmapFrame.WORLD]: 0 };
+  private edges: Map<string, EdgeImpactStats> = new Map();
+  private totalHits: number = 0;
+
+  /**
+   * 订阅模拟的撞墙事件，返回取消订阅的函数
+   *
+   * 订阅时清空已有数据（切换实时模拟和回放模拟时重新统计）。
+   */
+  subscribe(simulation: Simulation): () => void {
+    this.reset();
+
+    return simulation.on('collision', ({ ball, ringIndex, edgeIndex, point, impactSpeed }) => {
+      const offset = Vector.subtract(point, simulation.getCenter());
+      this.record({
+        tick: simulation.getTick(),
+        ringIndex,
+        edgeIndex,
+        world: point,
+        local: Vector.rotate(offset, -simulation.getRingRotation(ringIndex)),
+        impactSpeed,
+        impulse: ball.mass * impactSpeed,
+      });
+    });
+  }
+
+  /**
+   * 记录一次撞击
+   */
+  record(impact: ImpactPoint) {
+    this.points.push(impact);
+    if (this.points.length > MAX_IMPACT_POINTS) {
+      this.points.shift();
+    }
+
+    this.addToCell(HeatmapFrame.LOCAL, impact.ringIndex, impact.local);
+    this.addToCell(HeatmapFrame.WORLD, impact.ringIndex, impact.world);
+
+    const key = `${impact.ringIndex}:${impact.edgeIndex}`;
+    const edge = this.edges.get(key) ?? {
+      ringIndex: impact.ringIndex,
+      edgeIndex: impact.edgeIndex,
+      hits: 0,
+      impulse: 0,
+      maxImpactSpeed: 0,
+    };
+    this.edges.set(key, {
+      ...edge,
+      hits: edge.hits + 1,
+      impulse: edge.impulse + impact.impulse,
+      maxImpactSpeed: Math.max(edge.maxImpactSpeed, impact.impactSpeed),
+    });
+    this.totalHits += 1;
+  }
+
+  /**
+   * 指定参考系下的所有格子
+   */
+  getCells(frame: HeatmapFrame): HeatCell[] {
+    return [...this.cells[frame].values()];
+  }
+
+  /**
+   * 指定参考系下撞击最多的格子的次数
+   */
+  getMaxCount(frame: HeatmapFrame): number {
+    return this.maxCounts[frame];
+  }
+
+  /**
+   * 各条边的统计，按容器层和边序号排序
+   */
+  getEdgeStats(): EdgeImpactStats[] {
+    return [...this.edges.values()].sort((a, b) => a.ringIndex - b.ringIndex || a.edgeIndex - b.edgeIndex);
+  }
+
+  getTotalHits(): number {
+    return this.totalHits;
+  }
+
+  reset() {
+    this.points = [];
+    this.cells = { [HeatmapFrame.LOCAL]: new Map(), [HeatmapFrame.WORLD]: new Map() };
+    this.maxCounts = { [HeatmapFrame.LOCAL]: 0, [HeatmapFrame.WORLD]: 0 };
+    this.edges = new Map();
+    this.totalHits = 0;
+  }
+
+  /**
+   * 导出为 JSON：各边统计、两种参考系的格子和最近的撞击点
+   */
+  serialize(): string {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const roundPoint = ({ x, y }: Vector2D) => ({ x: round(x), y: round(y) });
+
+    return JSON.stringify({
+      version: HEATMAP_EXPORT_VERSION,
+      cellSize: HEATMAP_CELL_SIZE,
+      totalHits: this.totalHits,
+      edges: this.getEdgeStats().map((edge) => ({
+        ...edge,
+        impulse: round(edge.impulse),
+        maxImpactSpeed: round(edge.maxImpactSpeed),
+      })),
+      cells: {
+        local: this.getCells(HeatmapFrame.LOCAL),
+        world: this.getCells(HeatmapFrame.WORLD),
+      },
+      points: this.points.map((point) => ({
+        ...point,
+        world: roundPoint(point.world),
+        local: roundPoint(point.local),
+        impactSpeed: round(point.impactSpeed),
+        impulse: round(point.impulse),
+      })),
+    }, null, 2);
+  }
+
+  private addToCell(frame: HeatmapFrame, ringIndex: number, position: Vector2D) {
+    const column = Math.floor(position.x / HEATMAP_CELL_SIZE);
+    const row = Math.floor(position.y / HEATMAP_CELL_SIZE);
+    const key = `${ringIndex}:${column}:${row}`;
+    const cells = this.cells[frame];
+
+    const cell = cells.get(key) ?? {
+      ringIndex,
+      x: (column + 0.5) * HEATMAP_CELL_SIZE,
+      y: (row + 0.5) * HEATMAP_CELL_SIZE,
+      count: 0,
+    };
+    cells.set(key, { ...cell, count: cell.count + 1 });
+    this.maxCounts[frame] = Math.max(this.maxCounts[frame], cell.count + 1);
+  }
+}
@@ -0,0 +1,384 @@
+import { hashString } from '../utils/random';
+import { readStorage, writeStorage } from '../utils/storage';
+import { GameMode } from './types';
+import type { SimulationConfig } from './types';
+
+/**
+ * 排行榜存储格式版本
+ *
+ * 版本 0 为不带版本号的条目数组（早期手工导出的格式），读取时自动迁移。
+ */
+export const LEADERBOARD_VERSION = 1;
+
+/**
+ * 排行榜在本地存储中的键名
+ */
+const STORAGE_KEY = 'hexagon-bounce.leaderboard';
+
+/**
+ * 每个模式保留的排行榜条目数量
+ */
+export const MAX_ENTRIES_PER_MODE = 10;
+
+/**
+ * 默认的玩家缩写
+ */
+const DEFAULT_INITIALS = 'AAA';
+
+/**
+ * 一局游戏的成绩
+ */
+export interface SessionResult {
+  mode: GameMode;
+  score: number;
+  topSpeed: number; // (pixels/s)
+  duration: number; // 本局进行的模拟时间 (s)
+  bounces: number;
+  fingerprint: string; // 本局开始时的配置指纹
+}
+
+/**
+ * 排行榜条目
+ */
+export interface LeaderboardEntry extends SessionResult {
+  initials: string;
+  date: string; // ISO 8601
+}
+
+/**
+ * 单个模式的历史最佳记录（可以来自不同的局）
+ */
+export interface ModeRecords {
+  bestScore: number;
+  topSpeed: number;
+  longestSession: number; // (s)
+  mostBounces: number;
+}
+
+/**
+ * 排行榜数据
+ */
+export interface Leaderboard {
+  version: number;
+  initials: string; // 当前玩家的缩写，新成绩使用它
+  entries: LeaderboardEntry[];
+  records: Partial<Record<GameMode, ModeRecords>>;
+}
+
+/**
+ * 创建空的排行榜
+ */
+export function createLeaderboard(): Leaderboard {
+  return { version: LEADERBOARD_VERSION, initials: DEFAULT_INITIALS, entries: [], records: {} };
+}
+
+/**
+ * 规范化玩家缩写：最多三个大写字母或数字
+ */
+export function normalizeInitials(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+}
+
+/**
+ * 配置指纹：影响成绩的配置项的哈希（不含画布尺寸和模式），相同指纹的成绩可以直接比较
+ */
+export function getConfigFingerprint(config: SimulationConfig): string {
+  const {
+    shape,
+    containerRadius,
+    rotationSpeed,
+    ballRadius,
+    rings,
+    escapeGaps,
+    magnusEffect,
+    gravity,
+    forceFields,
+    material,
+    physics,
+    edgeBehaviors,
+    obstacles,
+  } = config;
+  const key = JSON.stringify([
+    shape,
+    containerRadius,
+    rotationSpeed,
+    ballRadius,
+    rings,
+    escapeGaps,
+    magnusEffect,
+    gravity,
+    forceFields,
+    material,
+    physics,
+    edgeBehaviors,
+    obstacles,
+  ]);
+  return hashString(key).toString(16).padStart(8, '0');
+}
+
+/**
+ * 用一局成绩更新模式的最佳记录
+ */
+function mergeRecords(records: ModeRecords | undefined, result: ModeRecords): ModeRecords {
+  if (!records) return result;
+  return {
+    bestScore: Math.max(records.bestScore, result.bestScore),
+    topSpeed: Math.max(records.topSpeed, result.topSpeed),
+    longestSession: Math.max(records.longestSession, result.longestSession),
+    mostBounces: Math.max(records.mostBounces, result.mostBounces),
+  };
+}
+
+/**
+ * 排行榜条目按分数从高到低排序，同分时较早的在前
+ */
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry): number {
+  return b.score - a.score || a.date.localeCompare(b.date);
+}
+
+/**
+ * 每个模式只保留前 MAX_ENTRIES_PER_MODE 名
+ */
+function trimEntries(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  const counts = new Map<GameMode, number>();
+  return [...entries].sort(compareEntries).filter((entry) => {
+    const count = counts.get(entry.mode) ?? 0;
+    counts.set(entry.mode, count + 1);
+    return count < MAX_ENTRIES_PER_MODE;
+  });
+}
+
+/**
+ * 记录一局成绩：更新最佳记录，并按分数插入排行榜
+ */
+export function addSession(board: Leaderboard, result: SessionResult, date: Date = new Date()): Leaderboard {
+  const initials = board.initials || DEFAULT_INITIALS;
+  const entry: LeaderboardEntry = { ...result, initials, date: date.toISOString() };
+
+  return {
+    ...board,
+    entries: trimEntries([...board.entries, entry]),
+    records: {
+      ...board.records,
+      [result.mode]: mergeRecords(board.records[result.mode], {
+        bestScore: result.score,
+        topSpeed: result.topSpeed,
+        longestSession: result.duration,
+        mostBounces: result.bounces,
+      }),
+    },
+  };
+}
+
+/**
+ * 合并两个排行榜（导入时使用），重复的条目只保留一份，保留当前的玩家缩写
+ *
+ * 导入文件中的最佳记录可以随意改写，只采用由导入条目推算出的记录。
+ */
+export function mergeLeaderboards(board: Leaderboard, imported: Leaderboard): Leaderboard {
+  const keyOf = (entry: LeaderboardEntry) => `${entry.mode}|${entry.date}|${entry.initials}|${entry.score}`;
+  const seen = new Set(board.entries.map(keyOf));
+  const entries = [...board.entries, ...imported.entries.filter((entry) => !seen.has(keyOf(entry)))];
+
+  const records = { ...board.records };
+  const importedRecords = recordsFromEntries(imported.entries);
+  (Object.keys(importedRecords) as GameMode[]).forEach((mode) => {
+    records[mode] = mergeRecords(records[mode], importedRecords[mode]!);
+  });
+
+  return { ...board, entries: trimEntries(entries), records };
+}
+
+/**
+ * 某个模式的排行榜条目（已排序）
+ */
+export function getModeEntries(board: Leaderboard, mode: GameMode): LeaderboardEntry[] {
+  return board.entries.filter((entry) => entry.mode === mode);
+}
+
+/**
+ * 从条目推算最佳记录（旧格式没有单独保存记录）
+ */
+function recordsFromEntries(entries: LeaderboardEntry[]): Partial<Record<GameMode, ModeRecords>> {
+  const records: Partial<Record<GameMode, ModeRecords>> = {};
+  entries.forEach((entry) => {
+    records[entry.mode] = mergeRecords(records[entry.mode], {
+      bestScore: entry.score,
+      topSpeed: entry.topSpeed,
+      longestSession: entry.duration,
+      mostBounces: entry.bounces,
+    });
+  });
+  return records;
+}
+
+/**
+ * 有限数值
+ */
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * 排行榜条目各字段的校验
+ */
+const ENTRY_FIELDS: Record<keyof LeaderboardEntry, (value: unknown) => boolean> = {
+  mode: (value) => Object.values(GameMode).includes(value as GameMode),
+  score: isFiniteNumber,
+  topSpeed: isFiniteNumber,
+  duration: isFiniteNumber,
+  bounces: isFiniteNumber,
+  fingerprint: (value) => typeof value === 'string',
+  initials: (value) => typeof value === 'string',
+  date: (value) => typeof value === 'string' && !Number.isNaN(Date.parse(value)),
+};
+
+/**
+ * v0 条目可以缺少的字段（迁移时取默认值）
+ */
+const V0_OPTIONAL_FIELDS: (keyof LeaderboardEntry)[] = ['topSpeed', 'duration', 'bounces', 'fingerprint', 'initials'];
+
+/**
+ * 配置指纹的格式（getConfigFingerprint 生成的 8 位十六进制数）
+ */
+const FINGERPRINT_PATTERN = /^[0-9a-f]{8}$/;
+
+/**
+ * 最佳记录的字段
+ */
+const RECORD_FIELDS: (keyof ModeRecords)[] = ['bestScore', 'topSpeed', 'longestSession', 'mostBounces'];
+
+/**
+ * 普通对象（不含 null 和数组）
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 校验排行榜条目：模式、分数和日期必须有效，其余字段只有 v0 可以缺少
+ */
+function isValidEntry(entry: unknown, version: number): boolean {
+  if (!isPlainObject(entry)) return false;
+  return (Object.keys(ENTRY_FIELDS) as (keyof LeaderboardEntry)[]).every((key) => {
+    if (entry[key] === undefined && version === 0 && V0_OPTIONAL_FIELDS.includes(key)) return true;
+    return ENTRY_FIELDS[key](entry[key]);
+  });
+}
+
+/**
+ * 校验单个模式的最佳记录
+ */
+function isValidRecords(records: unknown): boolean {
+  return isPlainObject(records) && RECORD_FIELDS.every((key) => isFiniteNumber(records[key]));
+}
+
+/**
+ * 规范化条目的字符串字段，只保留已知字段
+ */
+function normalizeEntry(entry: LeaderboardEntry): LeaderboardEntry {
+  return {
+    mode: entry.mode,
+    score: entry.score,
+    topSpeed: entry.topSpeed,
+    duration: entry.duration,
+    bounces: entry.bounces,
+    fingerprint: FINGERPRINT_PATTERN.test(entry.fingerprint) ? entry.fingerprint : '',
+    initials: normalizeInitials(entry.initials) || DEFAULT_INITIALS,
+    date: new Date(entry.date).toISOString(),
+  };
+}
+
+/**
+ * 丢弃字段无效的条目和记录，避免导入的坏数据写入本地存储
+ */
+function sanitizeLeaderboard(data: Record<string, unknown>): Record<string, unknown> {
+  const version = data.version as number;
+  const entries = (data.entries as unknown[]).filter((entry) => isValidEntry(entry, version));
+  if (version === 0) return { ...data, entries };
+
+  const records = Object.fromEntries(
+    Object.entries(data.records as Record<string, unknown>).filter(
+      ([mode, value]) => ENTRY_FIELDS.mode(mode) && isValidRecords(value)
+    )
+  );
+  const initials = typeof data.initials === 'string' ? normalizeInitials(data.initials) : DEFAULT_INITIALS;
+  return { ...data, initials, entries, records };
+}
+
+/**
+ * 各版本到下一版本的迁移，键为迁移前的版本号
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v0：不带版本号的条目数组，缺少的字段取默认值
+  0: (data) => {
+    const entries = (data.entries as LeaderboardEntry[]).map((entry) => ({
+      mode: entry.mode,
+      score: entry.score,
+      topSpeed: entry.topSpeed ?? 0,
+      duration: entry.duration ?? 0,
+      bounces: entry.bounces ?? 0,
+      fingerprint: entry.fingerprint ?? '',
+      initials: entry.initials ?? DEFAULT_INITIALS,
+      date: entry.date,
+    }));
+    return { version: 1, initials: DEFAULT_INITIALS, entries, records: recordsFromEntries(entries) };
+  },
+};
+
+/**
+ * 把旧版本的排行榜数据逐版本升级到当前版本
+ */
+function migrateLeaderboard(data: Record<string, unknown>): Leaderboard {
+  let current = data;
+  while ((current.version as number) < LEADERBOARD_VERSION) {
+    current = MIGRATIONS[current.version as number](current);
+  }
+  return current as unknown as Leaderboard;
+}
+
+/**
+ * 序列化排行榜
+ */
+export function serializeLeaderboard(board: Leaderboard): string {
+  return JSON.stringify(board, null, 2);
+}
+
+/**
+ * 解析并校验排行榜数据（旧版本会自动迁移）
+ */
+export function parseLeaderboard(json: string): Leaderboard {
+  const raw = JSON.parse(json);
+  const data = Array.isArray(raw) ? { version: 0, entries: raw } : raw;
+
+  if (!isPlainObject(data) || typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 0) {
+    throw new Error('无效的排行榜文件');
+  }
+  if (data.version > LEADERBOARD_VERSION) {
+    throw new Error(`不支持的排行榜版本: ${data.version}`);
+  }
+  if (!Array.isArray(data.entries) || (data.version > 0 && !isPlainObject(data.records))) {
+    throw new Error('排行榜文件缺少必要字段');
+  }
+
+  const board = migrateLeaderboard(sanitizeLeaderboard(data));
+  return { ...board, entries: board.entries.map(normalizeEntry) };
+}
+
+/**
+ * 从本地存储读取排行榜，没有或已损坏时返回空排行榜
+ */
+export function loadLeaderboard(): Leaderboard {
+  const json = readStorage(STORAGE_KEY);
+  if (json === null) return createLeaderboard();
+
+  try {
+    return parseLeaderboard(json);
+  } catch {
+    return createLeaderboard();
+  }
+}
+
+/**
+ * 把排行榜写入本地存储
+ */
+export function saveLeaderboard(board: Leaderboard): boolean {
+  return writeStorage(STORAGE_KEY, serializeLeaderboard(board));
+}
@@ -0,0 +1,322 @@
+import type { Vector2D } from '../utils/physics';
+import type { FlipperSide } from '../utils/flippers';
+import { FixedTimestep } from '../utils/timestep';
+import { RandomService, RandomStream } from '../utils/random';
+import { Simulation } from './Simulation';
+import { DEFAULT_SHAPE } from '../utils/shapes';
+import type { SimulationConfig, SimulationSnapshot } from './types';
+
+/**
+ * 回放文件格式版本
+ */
+export const REPLAY_VERSION = 2;
+
+/**
+ * 回放时每隔多少步保存一个关键帧（用于快速拖动进度）
+ */
+const KEYFRAME_INTERVAL = 120;
+
+/**
+ * 可录制的模拟输入
+ */
+export type SimulationInput =
+  | { type: 'impulse'; target: Vector2D; strength: number }
+  | { type: 'spawn'; position: Vector2D }
+  | { type: 'spawnRandom' }
+  | { type: 'pause'; paused: boolean }
+  | { type: 'reset' }
+  | { type: 'restart' }
+  | { type: 'flipper'; side: FlipperSide; pressed: boolean }
+  | { type: 'config'; config: Partial<SimulationConfig> };
+
+/**
+ * 带时间戳（模拟步数）的输入
+ */
+export interface RecordedInput {
+  tick: number;
+  input: SimulationInput;
+}
+
+/**
+ * 回放文件
+ */
+export interface ReplayFile {
+  version: number;
+  seed: number;
+  createdAt: string;
+  start: SimulationSnapshot; // 开始录制时的完整模拟状态
+  endTick: number;
+  inputs: RecordedInput[];
+}
+
+/**
+ * 把输入应用到模拟上（实时操作和回放走同一条路径）
+ */
+export function applyInput(simulation: Simulation, input: SimulationInput) {
+  switch (input.type) {
+    case 'impulse':
+      simulation.applyImpulse(input.target, input.strength);
+      break;
+    case 'spawn':
+      simulation.spawnBall(input.position);
+      break;
+    case 'spawnRandom':
+      simulation.spawnRandomBall();
+      break;
+    case 'pause':
+      simulation.setPaused(input.paused);
+      break;
+    case 'reset':
+      simulation.resetBalls();
+      break;
+    case 'restart':
+      simulation.restartGame();
+      break;
+    case 'flipper':
+      simulation.setFlipper(input.side, input.pressed);
+      break;
+    case 'config':
+      simulation.setConfig(input.config);
+      break;
+  }
+}
+
+/**
+ * 输入录制器
+ *
+ * 记录开始时的模拟快照和之后的每一个输入，
+ * 输入在第 tick 步执行之前生效。
+ */
+export class ReplayRecorder {
+  private readonly seed: number;
+  private readonly start: SimulationSnapshot;
+  private inputs: RecordedInput[] = [];
+
+  constructor(simulation: Simulation, seed: number) {
+    this.seed = seed;
+    this.start = simulation.snapshot();
+  }
+
+  /**
+   * 记录一个输入
+   */
+  record(tick: number, input: SimulationInput) {
+    this.inputs.push({ tick, input: structuredClone(input) });
+  }
+
+  /**
+   * 已录制的输入数量
+   */
+  getInputCount(): number {
+    return this.inputs.length;
+  }
+
+  /**
+   * 生成截至 endTick 的回放文件
+   */
+  toReplay(endTick: number): ReplayFile {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      createdAt: new Date().toISOString(),
+      start: structuredClone(this.start),
+      endTick,
+      inputs: this.inputs.filter((recorded) => recorded.tick <= endTick),
+    };
+  }
+}
+
+/**
+ * 回放播放器
+ *
+ * 从录制开始时的快照重新模拟，并在对应步数注入录制的输入。
+ * 播放过程中定期保存关键帧，拖动进度时从最近的关键帧快进。
+ */
+export class ReplayPlayer {
+  readonly file: ReplayFile;
+  readonly simulation: Simulation;
+  private readonly timestep: FixedTimestep = new FixedTimestep();
+  private keyframes: Map<number, SimulationSnapshot> = new Map();
+  private inputIndex: number = 0;
+  private playing: boolean = false;
+
+  constructor(file: ReplayFile) {
+    this.file = file;
+    this.simulation = new Simulation(
+      file.start.config,
+      new RandomService(file.seed).stream(RandomStream.SIMULATION)
+    );
+    this.simulation.restore(file.start);
+    this.keyframes.set(file.start.tick, structuredClone(file.start));
+  }
+
+  get startTick(): number {
+    return this.file.start.tick;
+  }
+
+  get endTick(): number {
+    return this.file.endTick;
+  }
+
+  get tick(): number {
+    return this.simulation.getTick();
+  }
+
+  /**
+   * 渲染插值系数
+   */
+  get alpha(): number {
+    return this.playing ? this.timestep.alpha : 1;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  play() {
+    if (this.tick >= this.endTick) {
+      this.seek(this.startTick);
+    }
+    this.playing = true;
+  }
+
+  pause() {
+    this.playing = false;
+    this.timestep.reset();
+  }
+
+  /**
+   * 按真实时间推进回放，返回执行的步数
+   */
+  update(frameTime: number): number {
+    if (!this.playing) return 0;
+
+    const steps = this.timestep.advance(frameTime);
+    let executed = 0;
+    for (; executed < steps && this.tick < this.endTick; executed++) {
+      this.advanceTick();
+    }
+
+    if (this.tick >= this.endTick) {
+      this.pause();
+    }
+
+    return executed;
+  }
+
+  /**
+   * 跳转到指定步数（从最近的关键帧静默快进）
+   */
+  seek(tick: number) {
+    const target = Math.max(this.startTick, Math.min(this.endTick, Math.round(tick)));
+
+    let keyframeTick = this.startTick;
+    this.keyframes.forEach((_, frameTick) => {
+      if (frameTick <= target && frameTick > keyframeTick) {
+        keyframeTick = frameTick;
+      }
+    });
+
+    // 当前位置比关键帧更近时直接向前推进
+    if (this.tick > target || this.tick < keyframeTick) {
+      this.simulation.restore(this.keyframes.get(keyframeTick)!);
+      this.inputIndex = this.file.inputs.findIndex((recorded) => recorded.tick >= keyframeTick);
+      if (this.inputIndex === -1) this.inputIndex = this.file.inputs.length;
+    }
+
+    this.simulation.setEventsMuted(true);
+    while (this.tick < target) {
+      this.advanceTick();
+    }
+    this.simulation.setEventsMuted(false);
+    this.timestep.reset();
+  }
+
+  /**
+   * 注入当前步的输入并执行一步
+   */
+  private advanceTick() {
+    this.applyPendingInputs();
+    this.simulation.advanceTick();
+
+    if (this.tick % KEYFRAME_INTERVAL === 0 && !this.keyframes.has(this.tick)) {
+      this.keyframes.set(this.tick, this.simulation.snapshot());
+    }
+  }
+
+  /**
+   * 应用所有属于当前步的输入
+   */
+  private applyPendingInputs() {
+    const { inputs } = this.file;
+    while (this.inputIndex < inputs.length && inputs[this.inputIndex].tick <= this.tick) {
+      applyInput(this.simulation, inputs[this.inputIndex].input);
+      this.inputIndex++;
+    }
+  }
+}
+
+/**
+ * 序列化回放文件
+ */
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay, null, 2);
+}
+
+/**
+ * 旧版配置迁移：v1 只有六边形容器，半径字段名为 hexagonRadius
+ */
+function migrateConfigV1(config: Record<string, unknown>): Partial<SimulationConfig> {
+  const { hexagonRadius, ...rest } = config;
+  return hexagonRadius === undefined ? rest : { ...rest, containerRadius: hexagonRadius as number };
+}
+
+/**
+ * 把旧版本的回放文件升级到当前版本
+ */
+function migrateReplay(data: ReplayFile): ReplayFile {
+  if (data.version < 2) {
+    data = {
+      ...data,
+      version: 2,
+      start: {
+        ...data.start,
+        config: {
+          shape: DEFAULT_SHAPE,
+          ...migrateConfigV1(data.start.config as unknown as Record<string, unknown>),
+        } as SimulationConfig,
+      },
+      inputs: data.inputs.map((recorded) =>
+        recorded.input.type === 'config'
+          ? { ...recorded, input: { type: 'config', config: migrateConfigV1(recorded.input.config) } }
+          : recorded
+      ),
+    };
+  }
+
+  return data;
+}
+
+/**
+ * 解析并校验回放文件（旧版本会自动迁移）
+ */
+export function parseReplay(json: string): ReplayFile {
+  const data = JSON.parse(json);
+
+  if (typeof data !== 'object' || data === null || typeof data.version !== 'number') {
+    throw new Error('无效的回放文件');
+  }
+  if (data.version > REPLAY_VERSION) {
+    throw new Error(`不支持的回放版本: ${data.version}`);
+  }
+  if (
+    typeof data.seed !== 'number' ||
+    typeof data.endTick !== 'number' ||
+    typeof data.start !== 'object' ||
+    !Array.isArray(data.inputs)
+  ) {
+    throw new Error('回放文件缺少必要字段');
+  }
+
+  return migrateReplay(data as ReplayFile);
+}
@@ -0,0 +1,264 @@
+import { Vector } from '../utils/physics';
+import type { Ball, Vector2D } from '../utils/physics';
+import { EdgeBehavior, SCORE_EDGE_BONUS } from '../utils/edgeBehaviors';
+import { REST_SPEED } from './types';
+import type { Simulation } from './Simulation';
+
+/**
+ * 一次可计分的撞击
+ */
+export interface ScoreHit {
+  surface: string; // 被撞表面的标识，连续撞到不同表面时叠加倍率
+  point: Vector2D;
+  impactSpeed: number;
+  impactAngle: number; // 入射方向与法线的夹角 (rad)，0 为正面撞击
+  bonus?: number; // 得分边等来源的额外基础分
+}
+
+/**
+ * 撞击点上方飘起的得分提示
+ */
+export interface ScorePopup {
+  id: number;
+  position: Vector2D;
+  text: string;
+  color: string; // "r, g, b"
+  age: number; // 已存在的时间 (s)
+}
+
+/**
+ * 计分状态
+ */
+export interface ScoreState {
+  score: number;
+  combo: number; // 当前连击数
+  bestCombo: number;
+  chain: number; // 连续撞到不同表面的次数
+  multiplier: number; // 当前连击中最近一次撞击的总倍率
+  restTime: number; // 小球持续静止的时间 (s)
+  penalty: number; // 因静止累计扣除的分数
+  popups: ScorePopup[];
+}
+
+/**
+ * 两次撞击间隔不超过该时间 (s) 即构成连击
+ */
+export const COMBO_WINDOW = 1;
+
+/**
+ * 每次连击增加的倍率和连击倍率上限
+ */
+const COMBO_STEP = 0.1;
+const MAX_COMBO_MULTIPLIER = 3;
+
+/**
+ * 连续撞到不同表面时每次增加的倍率和上限
+ */
+const CHAIN_STEP = 0.5;
+const MAX_CHAIN_MULTIPLIER = 4;
+
+/**
+ * 最快的小球静止超过宽限时间 (s) 后按每秒扣分
+ */
+const REST_GRACE = 2;
+const REST_PENALTY_PER_SECOND = 5;
+
+/**
+ * 得分提示的存在时间 (s) 和上飘速度 (pixels/s)
+ */
+export const POPUP_LIFETIME = 1;
+const POPUP_RISE_SPEED = 40;
+
+/**
+ * 基于离散碰撞事件的计分引擎
+ *
+ * 每次撞击按冲击速度和入射角计算基础分，再乘以连击倍率和换边倍率；
+ * 小球长时间静止会打断连击并持续扣分。引擎只依赖传入的事件和时间，
+ * 相同的事件序列总是得到相同的分数。
+ */
+export class ScoringEngine {
+  private state: ScoreState = ScoringEngine.createState();
+  private time: number = 0;
+  private lastHitTime: number = -Infinity;
+  private lastSurface: string | null = null;
+  private nextPopupId: number = 0;
+
+  private static createState(): ScoreState {
+    return {
+      score: 0,
+      combo: 0,
+      bestCombo: 0,
+      chain: 0,
+      multiplier: 1,
+      restTime: 0,
+      penalty: 0,
+      popups: [],
+    };
+  }
+
+  /**
+   * 记录一次撞击，返回本次获得的分数
+   */
+  recordHit(hit: ScoreHit): number {
+    const inCombo = this.state.combo > 0 && this.time - this.lastHitTime <= COMBO_WINDOW;
+    const combo = inCombo ? this.state.combo + 1 : 1;
+    const chain = inCombo && this.lastSurface !== hit.surface ? this.state.chain + 1 : 1;
+    const multiplier = getComboMultiplier(combo) * getChainMultiplier(chain);
+
+    // 正面撞击得到全部速度分，擦边撞击只得到一部分
+    const directness = Math.max(Math.cos(hit.impactAngle), 0);
+    const base = 10 + (hit.impactSpeed / 10) * directness + (hit.bonus ?? 0);
+    const points = Math.round(base * multiplier);
+
+    this.lastHitTime = this.time;
+    this.lastSurface = hit.surface;
+    this.state = {
+      ...this.state,
+      score: this.state.score + points,
+      combo,
+      bestCombo: Math.max(this.state.bestCombo, combo),
+      chain,
+      multiplier,
+      popups: [
+        ...this.state.popups,
+        this.createPopup(hit.point, multiplier > 1 ? `+${points} ×${multiplier.toFixed(1)}` : `+${points}`, '0, 255, 136'),
+      ],
+    };
+
+    return points;
+  }
+
+  /**
+   * 推进计分时间：更新得分提示，检查小球是否静止
+   *
+   * penalize 为 false 时（如挑战倒计时）只更新得分提示。
+   */
+  update(deltaTime: number, balls: Ball[], penalize: boolean = true) {
+    this.time += deltaTime;
+
+    const popups = this.state.popups
+      .map((popup) => ({
+        ...popup,
+        age: popup.age + deltaTime,
+        position: { x: popup.position.x, y: popup.position.y - POPUP_RISE_SPEED * deltaTime },
+      }))
+      .filter((popup) => popup.age < POPUP_LIFETIME);
+
+    const fastest = balls.reduce<Ball | null>(
+      (best, ball) => (!best || Vector.magnitude(ball.velocity) > Vector.magnitude(best.velocity) ? ball : best),
+      null
+    );
+    const resting = penalize && fastest !== null && Vector.magnitude(fastest.velocity) < REST_SPEED;
+    const restTime = resting ? this.state.restTime + deltaTime : 0;
+
+    // 超出连击窗口或静止超过宽限时间后连击中断，静止时每满一秒扣一次分
+    let { score, penalty, combo, chain, multiplier } = this.state;
+    if (this.time - this.lastHitTime > COMBO_WINDOW || restTime > REST_GRACE) {
+      combo = 0;
+      chain = 0;
+      multiplier = 1;
+      this.lastSurface = null;
+    }
+    if (restTime > REST_GRACE) {
+      const deduction = Math.min(getRestPenalty(restTime) - getRestPenalty(restTime - deltaTime), score);
+      if (deduction > 0) {
+        score -= deduction;
+        penalty += deduction;
+        popups.push(this.createPopup(fastest!.position, `-${deduction}`, '255, 80, 80'));
+      }
+    }
+
+    this.state = {
+      ...this.state,
+      score,
+      penalty,
+      combo,
+      chain,
+      multiplier,
+      restTime,
+      popups,
+    };
+  }
+
+  /**
+   * 订阅模拟的碰撞事件并计分，返回取消订阅的函数
+   *
+   * 订阅时和新游戏开始（回到第一轮）时清空分数。
+   */
+  subscribe(simulation: Simulation): () => void {
+    this.reset();
+
+    const unsubscribers = [
+      // 得分边额外加分
+      simulation.on('collision', ({ ringIndex, edgeIndex, behavior, point, impactSpeed, impactAngle }) => {
+        this.recordHit({
+          surface: getWallSurface(ringIndex, edgeIndex),
+          point,
+          impactSpeed,
+          impactAngle,
+          bonus: behavior === EdgeBehavior.SCORE ? SCORE_EDGE_BONUS : 0,
+        });
+      }),
+      simulation.on('obstacleHit', ({ obstacle, point, impactSpeed, impactAngle }) => {
+        this.recordHit({ surface: getObstacleSurface(obstacle.id), point, impactSpeed, impactAngle });
+      }),
+      simulation.on('roundStart', ({ round }) => {
+        if (round === 1) this.reset();
+      }),
+    ];
+
+    return () => unsubscribers.forEach((off) => off());
+  }
+
+  getState(): ScoreState {
+    return this.state;
+  }
+
+  /**
+   * 清空分数和连击，重新开始计分
+   */
+  reset() {
+    this.state = ScoringEngine.createState();
+    this.lastHitTime = -Infinity;
+    this.lastSurface = null;
+  }
+
+  private createPopup(position: Vector2D, text: string, color: string): ScorePopup {
+    return { id: this.nextPopupId++, position, text, color, age: 0 };
+  }
+}
+
+/**
+ * 连击倍率：第一次撞击为 1，之后每次连击增加
+ */
+function getComboMultiplier(combo: number): number {
+  return Math.min(1 + Math.max(combo - 1, 0) * COMBO_STEP, MAX_COMBO_MULTIPLIER);
+}
+
+/**
+ * 换边倍率：连续撞到不同表面时增加
+ */
+function getChainMultiplier(chain: number): number {
+  return Math.min(1 + Math.max(chain - 1, 0) * CHAIN_STEP, MAX_CHAIN_MULTIPLIER);
+}
+
+/**
+ * 持续静止 restTime (s) 累计应扣的分数
+ */
+function getRestPenalty(restTime: number): number {
+  return restTime > REST_GRACE ? Math.floor(restTime - REST_GRACE) * REST_PENALTY_PER_SECOND : 0;
+}
+
+/**
+ * 墙面的表面标识（内层容器的同一序号的边视为不同表面）
+ */
+export function getWallSurface(ringIndex: number, edgeIndex: number): string {
+  return `wall:${ringIndex}:${edgeIndex}`;
+}
+
+/**
+ * 障碍物的表面标识
+ */
+export function getObstacleSurface(obstacleId: number): string {
+  return `obstacle:${obstacleId}`;
+}
@@ -0,0 +1,106 @@
+import { Vector } from '../utils/physics';
+import type { Ball } from '../utils/physics';
+import { getConfigFingerprint } from './leaderboard';
+import type { SessionResult } from './leaderboard';
+import type { Simulation } from './Simulation';
+
+/**
+ * 统计一局游戏的成绩，供排行榜记录
+ *
+ * 一局从订阅或回到第一轮时开始，到游戏结束、挑战结束或新一局开始时结束。
+ * 模式和配置指纹在开局时确定，局中修改配置不影响本局的归属。
+ */
+export class SessionTracker {
+  private current: SessionResult;
+  private finished: boolean = false;
+
+  constructor(simulation: Simulation) {
+    this.current = SessionTracker.createResult(simulation);
+  }
+
+  private static createResult(simulation: Simulation): SessionResult {
+    const config = simulation.getConfig();
+    return {
+      mode: config.mode,
+      score: 0,
+      topSpeed: 0,
+      duration: 0,
+      bounces: 0,
+      fingerprint: getConfigFingerprint(config),
+    };
+  }
+
+  /**
+   * 订阅模拟事件，每局结束时调用 onFinish，返回取消订阅的函数
+   */
+  subscribe(simulation: Simulation, onFinish: (result: SessionResult) => void): () => void {
+    this.start(simulation);
+
+    const finish = () => {
+      const result = this.finish();
+      if (result) onFinish(result);
+    };
+
+    const unsubscribers = [
+      simulation.on('collision', () => {
+        if (!this.finished) this.current.bounces += 1;
+      }),
+      simulation.on('roundStart', ({ round }) => {
+        if (round !== 1) return;
+        finish();
+        this.start(simulation);
+      }),
+      simulation.on('gameOver', finish),
+      // 挑战以结算画面上的成绩为准
+      simulation.on('challengeEnd', ({ score }) => {
+        this.current.score = score;
+        finish();
+      }),
+    ];
+
+    return () => unsubscribers.forEach((off) => off());
+  }
+
+  /**
+   * 推进本局时间并更新最高速度和分数
+   *
+   * 挑战倒计时、游戏结束等不计时的阶段应传入 0。
+   */
+  update(deltaTime: number, balls: Ball[], score: number) {
+    if (this.finished || deltaTime <= 0) return;
+
+    const topSpeed = balls.reduce((max, ball) => Math.max(max, Vector.magnitude(ball.velocity)), 0);
+    this.current = {
+      ...this.current,
+      duration: this.current.duration + deltaTime,
+      topSpeed: Math.max(this.current.topSpeed, topSpeed),
+      score,
+    };
+  }
+
+  /**
+   * 结束本局，返回值得记录的成绩（没有进行过或没有任何成绩时返回 null）
+   */
+  finish(): SessionResult | null {
+    if (this.finished) return null;
+    this.finished = true;
+
+    const { duration, bounces, score } = this.current;
+    return duration > 0 && (bounces > 0 || score > 0) ? { ...this.current } : null;
+  }
+
+  /**
+   * 当前这一局的成绩
+   */
+  getCurrent(): SessionResult {
+    return this.current;
+  }
+
+  /**
+   * 放弃当前这一局（不记录），按模拟当前的配置开始新的一局
+   */
+  start(simulation: Simulation) {
+    this.current = SessionTracker.createResult(simulation);
+    this.finished = false;
+  }
+}
@@ -0,0 +1,105 @@
+import { GravityMode, Vector, momentOfInertia } from '../utils/physics';
+import type { Ball, GravitySettings, Vector2D } from '../utils/physics';
+
+/**
+ * 游戏统计数据（统计面板和成就进度共用）
+ */
+export interface GameStats {
+  bounces: number;
+  maxSpeed: number;
+  currentSpeed: number;
+  totalTime: number;
+  collisions: number;
+}
+
+/**
+ * 创建空的统计数据
+ */
+export function createGameStats(): GameStats {
+  return {
+    bounces: 0,
+    maxSpeed: 0,
+    currentSpeed: 0,
+    totalTime: 0,
+    collisions: 0,
+  };
+}
+
+/**
+ * 计算单个小球的速度
+ */
+export function getBallSpeed(ball: Ball): number {
+  return Vector.magnitude(ball.velocity);
+}
+
+/**
+ * 计算当前速度（取最快的小球）
+ */
+export function getCurrentSpeed(balls: Ball[]): number {
+  return balls.reduce((max, ball) => Math.max(max, getBallSpeed(ball)), 0);
+}
+
+/**
+ * 用最新的小球状态、碰撞次数和游戏时间更新统计数据
+ */
+export function updateGameStats(
+  stats: GameStats,
+  balls: Ball[],
+  collisionCount: number,
+  totalTime: number
+): GameStats {
+  const currentSpeed = getCurrentSpeed(balls);
+
+  return {
+    currentSpeed,
+    maxSpeed: Math.max(stats.maxSpeed, currentSpeed),
+    bounces: Math.max(stats.bounces, collisionCount),
+    collisions: Math.max(stats.collisions, collisionCount),
+    totalTime,
+  };
+}
+
+/**
+ * 小球在容器内的高度：沿重力反方向到容器外接圆最低点的距离
+ *
+ * 指向中心的重力以到中心的距离为高度，背离中心的重力以到外接圆的距离为高度；
+ * 失重时按屏幕的上方计算。
+ */
+export function getBallHeight(
+  ball: Ball,
+  gravity: GravitySettings,
+  center: Vector2D,
+  frameRotation: number,
+  containerRadius: number
+): number {
+  const offset = Vector.subtract(ball.position, center);
+
+  switch (gravity.mode) {
+    case GravityMode.ATTRACT:
+      return Vector.magnitude(offset);
+    case GravityMode.REPEL:
+      return containerRadius - Vector.magnitude(offset);
+    default: {
+      const angle = gravity.mode === GravityMode.FRAME
+        ? gravity.angle + frameRotation
+        : gravity.mode === GravityMode.FIXED ? gravity.angle : 0;
+      const down = Vector.rotate({ x: 0, y: 1 }, angle);
+      return containerRadius - Vector.dot(offset, down);
+    }
+  }
+}
+
+/**
+ * 小球的动能（平动加转动）
+ */
+export function getKineticEnergy(ball: Ball): number {
+  const speed = getBallSpeed(ball);
+  return 0.5 * ball.mass * speed * speed + 0.5 * momentOfInertia(ball) * ball.angularVelocity * ball.angularVelocity;
+}
+
+/**
+ * 小球的重力势能（以容器外接圆最低点为零点，失重时为 0）
+ */
+export function getPotentialEnergy(ball: Ball, gravity: GravitySettings, height: number): number {
+  return gravity.mode === GravityMode.ZERO ? 0 : ball.mass * gravity.strength * height;
+}
@@ -0,0 +1,188 @@
+import { getBallHeight, getCurrentSpeed, getKineticEnergy, getPotentialEnergy } from './stats';
+import type { Simulation } from './Simulation';
+
+/**
+ * 一个时间点的采样
+ */
+export interface TimeSample {
+  time: number; // 模拟时间 (s)
+  speed: number; // 最快小球的速度 (pixels/s)
+  collisionRate: number; // 过去一秒内的碰撞次数
+  kinetic: number; // 所有小球的动能之和
+  potential: number; // 所有小球的重力势能之和
+  total: number;
+  height: number; // 小球在容器内的平均高度 (pixels)
+}
+
+/**
+ * 可以绘制成曲线的采样字段
+ */
+export type SampleKey = Exclude<keyof TimeSample, 'time'>;
+
+/**
+ * 图表
+ */
+export const ChartId = {
+  SPEED: 'speed',
+  COLLISIONS: 'collisions',
+  ENERGY: 'energy',
+  HEIGHT: 'height',
+} as const;
+
+export type ChartId = typeof ChartId[keyof typeof ChartId];
+
+/**
+ * 图表中的一条曲线
+ */
+export interface ChartLine {
+  key: SampleKey;
+  label: string;
+  color: string;
+}
+
+/**
+ * 各图表的名称、单位和曲线
+ */
+export const CHARTS: Record<ChartId, { label: string; unit: string; lines: ChartLine[] }> = {
+  [ChartId.SPEED]: {
+    label: '速度',
+    unit: 'px/s',
+    lines: [{ key: 'speed', label: '速度', color: '#3498db' }],
+  },
+  [ChartId.COLLISIONS]: {
+    label: '碰撞频率',
+    unit: '次/s',
+    lines: [{ key: 'collisionRate', label: '碰撞', color: '#00ff88' }],
+  },
+  [ChartId.ENERGY]: {
+    label: '能量',
+    unit: '×10³',
+    lines: [
+      { key: 'kinetic', label: '动能', color: '#ff6b6b' },
+      { key: 'potential', label: '势能', color: '#9b59b6' },
+      { key: 'total', label: '总能量', color: '#ffd700' },
+    ],
+  },
+  [ChartId.HEIGHT]: {
+    label: '高度',
+    unit: 'px',
+    lines: [{ key: 'height', label: '高度', color: '#1abc9c' }],
+  },
+};
+
+/**
+ * 可选的时间窗口 (s)
+ */
+export const CHART_WINDOWS = [10, 60, 300];
+
+/**
+ * 采样间隔 (s)
+ */
+const SAMPLE_INTERVAL = 0.1;
+
+/**
+ * 计算碰撞频率的时间范围 (s)
+ */
+const COLLISION_RATE_WINDOW = 1;
+
+/**
+ * 能量的显示比例（图表以千为单位）
+ */
+const ENERGY_SCALE = 1 / 1000;
+
+/**
+ * 按固定间隔采样模拟状态，保留最长时间窗口内的数据
+ *
+ * 时间只随模拟推进，暂停时不再采样，图表停在暂停时的画面。
+ */
+export class TimeSeriesRecorder {
+  private samples: TimeSample[] = [];
+  private collisionTimes: number[] = [];
+  private time: number = 0;
+  private nextSampleTime: number = 0;
+
+  /**
+   * 订阅碰撞事件统计碰撞频率，返回取消订阅的函数
+   *
+   * 订阅时清空已有数据（切换实时模拟和回放模拟时重新采样）。
+   */
+  subscribe(simulation: Simulation): () => void {
+    this.reset();
+
+    const recordCollision = () => {
+      this.collisionTimes.push(this.time);
+    };
+    const unsubscribers = [
+      simulation.on('collision', recordCollision),
+      simulation.on('ballCollision', recordCollision),
+      simulation.on('obstacleHit', recordCollision),
+      simulation.on('flipperHit', recordCollision),
+      simulation.on('brickHit', recordCollision),
+    ];
+
+    return () => unsubscribers.forEach((off) => off());
+  }
+
+  /**
+   * 推进采样时间，到达采样间隔时记录一次模拟状态
+   */
+  update(deltaTime: number, simulation: Simulation) {
+    if (deltaTime <= 0) return;
+    this.time += deltaTime;
+
+    const oldest = this.time - COLLISION_RATE_WINDOW;
+    this.collisionTimes = this.collisionTimes.filter((time) => time > oldest);
+
+    if (this.time < this.nextSampleTime) return;
+    this.nextSampleTime = this.time + SAMPLE_INTERVAL;
+
+    // 每次采样都生成新数组，便于界面判断数据是否变化
+    const earliest = this.time - Math.max(...CHART_WINDOWS);
+    this.samples = [...this.samples.filter((sample) => sample.time >= earliest), this.sample(simulation)];
+  }
+
+  getSamples(): TimeSample[] {
+    return this.samples;
+  }
+
+  /**
+   * 当前的采样时间 (s)
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  reset() {
+    this.samples = [];
+    this.collisionTimes = [];
+    this.time = 0;
+    this.nextSampleTime = 0;
+  }
+
+  private sample(simulation: Simulation): TimeSample {
+    const { gravity, containerRadius } = simulation.getConfig();
+    const balls = simulation.getBalls();
+    const center = simulation.getCenter();
+    const rotation = simulation.getRotation();
+
+    let kinetic = 0;
+    let potential = 0;
+    let height = 0;
+    balls.forEach((ball) => {
+      const ballHeight = getBallHeight(ball, gravity, center, rotation, containerRadius);
+      kinetic += getKineticEnergy(ball);
+      potential += getPotentialEnergy(ball, gravity, ballHeight);
+      height += ballHeight;
+    });
+
+    return {
+      time: this.time,
+      speed: getCurrentSpeed(balls),
+      collisionRate: this.collisionTimes.length / COLLISION_RATE_WINDOW,
+      kinetic: kinetic * ENERGY_SCALE,
+      potential: potential * ENERGY_SCALE,
+      total: (kinetic + potential) * ENERGY_SCALE,
+      height: balls.length > 0 ? height / balls.length : 0,
+    };
+  }
+}
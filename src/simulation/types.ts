@@ -0,0 +1,259 @@
+import { DEFAULT_GRAVITY, PHYSICS_CONSTANTS } from '../utils/physics';
+import type { Ball, GravitySettings, PhysicsParams, Vector2D } from '../utils/physics';
+import { MaterialId } from '../utils/materials';
+import { DEFAULT_SHAPE } from '../utils/shapes';
+import type { ContainerShape } from '../utils/shapes';
+import type { EdgeGaps } from '../utils/collision';
+import type { ForceField } from '../utils/forceFields';
+import type { EdgeBehavior } from '../utils/edgeBehaviors';
+import type { Obstacle } from '../utils/obstacles';
+import type { FlipperSide, FlipperState } from '../utils/flippers';
+import type { Brick, PowerUp } from '../utils/bricks';
+import type { ChallengeMode, ChallengeState, WallTarget } from './challenges';
+
+/**
+ * 内层同心容器（与最外层形状相同）
+ */
+export interface ContainerRing {
+  scale: number; // 相对最外层容器半径的比例
+  rotationSpeed: number; // 旋转角速度 (rad/s)，负值为反向旋转
+  gaps: EdgeGaps; // 让小球在各层之间穿行的缺口
+}
+
+/**
+ * 游戏模式
+ */
+export const GameMode = {
+  FREE: 'free', // 自由模式：封闭容器
+  ESCAPE: 'escape', // 逃脱模式：从墙上的缺口逃出容器
+  PINBALL: 'pinball', // 弹球模式：用底部两个挡板接住小球
+  BREAKOUT: 'breakout', // 打砖块模式：打碎容器内成环排列的砖块
+  TIMED: 'timed', // 限时挑战：60 秒内撞墙次数越多越好
+  TARGETS: 'targets', // 目标模式：撞击墙上随机出现的发光目标
+  SURVIVAL: 'survival', // 生存模式：小球速度持续过低即失败
+} as const;
+
+export type GameMode = typeof GameMode[keyof typeof GameMode];
+
+/**
+ * 各游戏模式的显示名称
+ */
+export const GAME_MODE_LABELS: Record<GameMode, string> = {
+  [GameMode.FREE]: '自由模式',
+  [GameMode.ESCAPE]: '逃脱模式',
+  [GameMode.PINBALL]: '弹球模式',
+  [GameMode.BREAKOUT]: '打砖块模式',
+  [GameMode.TIMED]: '限时挑战',
+  [GameMode.TARGETS]: '目标模式',
+  [GameMode.SURVIVAL]: '生存模式',
+};
+
+/**
+ * 模拟配置接口
+ */
+export interface SimulationConfig {
+  canvasWidth: number;
+  canvasHeight: number;
+  containerRadius: number; // 容器外接圆半径
+  shape: ContainerShape;
+  rotationSpeed: number; // 旋转角速度 (rad/s)
+  ballRadius: number;
+  substeps: number; // 每个固定步长内的物理子步数
+  rings: ContainerRing[]; // 由外向内排列的内层容器
+  mode: GameMode;
+  escapeGaps: EdgeGaps; // 逃脱模式下最外层容器的缺口
+  magnusEffect: boolean; // 旋转的小球在空中受马格努斯力偏转
+  gravity: GravitySettings;
+  forceFields: ForceField[]; // 用户放置的力场（世界坐标，不随容器旋转）
+  material: MaterialId; // 新球的材质
+  physics: PhysicsParams;
+  edgeBehaviors: EdgeBehavior[]; // 最外层容器每条边的类型，按边序号索引
+  obstacles: Obstacle[]; // 容器内部的钉子、横杆和弹射器
+}
+
+/**
+ * 默认模拟配置
+ */
+export const DEFAULT_CONFIG: SimulationConfig = {
+  canvasWidth: 600,
+  canvasHeight: 600,
+  containerRadius: 200,
+  shape: DEFAULT_SHAPE,
+  rotationSpeed: 1.2,
+  ballRadius: 8,
+  substeps: 2,
+  rings: [],
+  mode: GameMode.FREE,
+  escapeGaps: { edges: [0], width: 50 },
+  magnusEffect: false,
+  gravity: DEFAULT_GRAVITY,
+  forceFields: [],
+  material: MaterialId.RUBBER,
+  physics: { ...PHYSICS_CONSTANTS },
+  edgeBehaviors: [],
+  obstacles: [],
+};
+
+/**
+ * 内层容器数量上限
+ */
+export const MAX_RINGS = 3;
+
+/**
+ * 同时存在的小球数量上限
+ */
+export const MAX_BALLS = 30;
+
+/**
+ * 容器旋转速度上限 (rad/s)
+ */
+export const MAX_ROTATION_SPEED = 6;
+
+/**
+ * 小球速度 (pixels/s) 持续低于该值时视为静止
+ */
+export const REST_SPEED = 40;
+
+/**
+ * 逃脱模式逐轮提升的配置项
+ */
+export type RoundDifficulty = Pick<SimulationConfig, 'rotationSpeed' | 'containerRadius'>;
+
+/**
+ * 模拟状态快照（可序列化，用于保存和恢复）
+ */
+export interface SimulationSnapshot {
+  tick: number;
+  rotation: number;
+  ringRotations: number[];
+  balls: Ball[];
+  nextBallId: number;
+  round: number;
+  roundStartTick: number;
+  lives: number;
+  flippers: Record<FlipperSide, FlipperState>;
+  bricks: Brick[];
+  powerUps: PowerUp[];
+  nextPowerUpId: number;
+  slowRotationTime: number;
+  challenge: ChallengeState | null;
+  baseDifficulty: RoundDifficulty | null;
+  rngState: number;
+  config: SimulationConfig;
+}
+
+/**
+ * 渲染用的插值状态
+ */
+export interface RenderState {
+  rotation: number;
+  ringRotations: number[];
+  balls: Ball[];
+}
+
+/**
+ * 模拟事件类型映射
+ */
+export interface SimulationEvents {
+  collision: {
+    ball: Ball;
+    ringIndex: number; // 0 为最外层容器，之后依次为各内层容器
+    edgeIndex: number;
+    behavior: EdgeBehavior; // 内层容器的墙面总是普通墙面
+    point: Vector2D;
+    normal: Vector2D;
+    impactSpeed: number;
+    impactAngle: number; // 入射方向与法线的夹角 (rad)，0 为正面撞击
+  };
+  ballCollision: {
+    a: Ball;
+    b: Ball;
+    point: Vector2D;
+    impactSpeed: number;
+  };
+  spawn: {
+    ball: Ball;
+  };
+  impulse: {
+    target: Vector2D;
+    strength: number;
+  };
+  reset: {
+    balls: Ball[]; // 重置后的小球
+  };
+  pause: {
+    paused: boolean;
+  };
+  configChange: {
+    config: SimulationConfig; // 更新后的完整配置
+    changes: Partial<SimulationConfig>;
+  };
+  rest: {
+    ball: Ball; // 刚刚静止下来的小球
+  };
+  escape: {
+    ball: Ball;
+    round: number;
+    time: number; // 从本轮开始到逃出的时间 (s)
+  };
+  roundStart: {
+    round: number;
+  };
+  obstacleHit: {
+    ball: Ball;
+    obstacle: Obstacle;
+    point: Vector2D;
+    normal: Vector2D;
+    impactSpeed: number;
+    impactAngle: number;
+  };
+  flipperHit: {
+    ball: Ball;
+    side: FlipperSide;
+    point: Vector2D;
+    impactSpeed: number;
+  };
+  drain: {
+    ball: Ball;
+    lives: number; // 掉落后剩余的生命数
+  };
+  gameOver: {
+    round: number;
+  };
+  brickHit: {
+    ball: Ball;
+    brick: Brick; // 扣除耐久后的砖块
+    point: Vector2D;
+    destroyed: boolean;
+  };
+  powerUpDrop: {
+    powerUp: PowerUp;
+  };
+  powerUpCollect: {
+    ball: Ball;
+    powerUp: PowerUp;
+  };
+  levelClear: {
+    level: number;
+    time: number; // 本关用时 (s)
+  };
+  deadZone: {
+    ball: Ball;
+    edgeIndex: number;
+    round: number;
+  };
+  challengeStart: {
+    mode: ChallengeMode;
+  };
+  targetHit: {
+    ball: Ball;
+    target: WallTarget;
+    point: Vector2D;
+    targetsHit: number; // 包括本次在内已命中的目标数
+  };
+  challengeEnd: {
+    mode: ChallengeMode;
+    score: number;
+    elapsed: number; // 挑战进行的时间 (s)
+  };
+}
@@ -1,3 +1,5 @@
+import { Random } from './random';
+
 /**
  * 音效类型常量
  */
@@ -5,6 +7,12 @@ export const SoundType = {
   COLLISION: 'collision',
   CLICK: 'click',
   WHOOSH: 'whoosh',
+  BOING: 'boing', // 弹力墙
+  SPLAT: 'splat', // 粘性墙
+  ZAP: 'zap', // 加速垫
+  BUZZ: 'buzz', // 死亡区
+  CHIME: 'chime', // 得分边
+  BRICK: 'brick', // 砖块被击中
 } as const;
 
 export type SoundType = typeof SoundType[keyof typeof SoundType];
@@ -17,6 +25,7 @@ class AudioManager {
   private masterVolume: number = 0.3;
   private sounds: Map<SoundType, AudioBuffer> = new Map();
   private isEnabled: boolean = true;
+  private random: Random = new Random();
 
   constructor() {
     this.initAudioContext();
@@ -28,7 +37,8 @@ class AudioManager {
    */
   private initAudioContext() {
     try {
-      this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const legacyWindow = window as unknown as { webkitAudioContext: typeof AudioContext };
+      this.context = new (window.AudioContext || legacyWindow.webkitAudioContext)();
     } catch (error) {
       console.warn('Web Audio API not supported:', error);
     }
@@ -51,6 +61,16 @@ class AudioManager {
     // 生成呼啸音效
     const whooshSound = this.generateWhooshSound();
     this.sounds.set(SoundType.WHOOSH, whooshSound);
+
+    // 生成各类特殊墙面的碰撞音效
+    this.sounds.set(SoundType.BOING, this.generateBoingSound());
+    this.sounds.set(SoundType.SPLAT, this.generateSplatSound());
+    this.sounds.set(SoundType.ZAP, this.generateZapSound());
+    this.sounds.set(SoundType.BUZZ, this.generateBuzzSound());
+    this.sounds.set(SoundType.CHIME, this.generateChimeSound());
+
+    // 生成砖块击中音效
+    this.sounds.set(SoundType.BRICK, this.generateBrickSound());
   }
 
   /**
@@ -70,7 +90,7 @@ class AudioManager {
         const time = i / sampleRate;
         
         // 噪声基础
-        const noise = (Math.random() * 2 - 1) * 0.5;
+        const noise = (this.random.next() * 2 - 1) * 0.5;
         
         // 低频冲击
         const impact = Math.sin(time * 80 * Math.PI * 2) * 0.7;
@@ -132,7 +152,7 @@ class AudioManager {
         const time = i / sampleRate;
         
         // 白噪声基础
-        const noise = (Math.random() * 2 - 1) * 0.2;
+        const noise = (this.random.next() * 2 - 1) * 0.2;
         
         // 低通滤波的呼啸声
         const freq = 200 + time * 800; // 频率上升
@@ -148,6 +168,193 @@ class AudioManager {
     return buffer;
   }
 
+  /**
+   * 生成弹簧音效（弹力墙：音调先降后升的颤音）
+   */
+  private generateBoingSound(): AudioBuffer {
+    if (!this.context) throw new Error('AudioContext not available');
+
+    const sampleRate = this.context.sampleRate;
+    const duration = 0.35;
+    const buffer = this.context.createBuffer(2, sampleRate * duration, sampleRate);
+
+    for (let channel = 0; channel < 2; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      let phase = 0;
+
+      for (let i = 0; i < channelData.length; i++) {
+        const time = i / sampleRate;
+
+        // 带颤动的滑音
+        const freq = 180 + 120 * Math.sin(time * 30) * Math.exp(-time * 6) + time * 400;
+        phase += (freq * Math.PI * 2) / sampleRate;
+
+        const envelope = Math.exp(-time * 7);
+
+        channelData[i] = Math.sin(phase) * 0.6 * envelope;
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * 生成黏糊音效（粘性墙：沉闷的低频噪声）
+   */
+  private generateSplatSound(): AudioBuffer {
+    if (!this.context) throw new Error('AudioContext not available');
+
+    const sampleRate = this.context.sampleRate;
+    const duration = 0.25;
+    const buffer = this.context.createBuffer(2, sampleRate * duration, sampleRate);
+
+    for (let channel = 0; channel < 2; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      let smoothed = 0;
+
+      for (let i = 0; i < channelData.length; i++) {
+        const time = i / sampleRate;
+
+        // 简单低通滤波的噪声
+        const noise = this.random.next() * 2 - 1;
+        smoothed += (noise - smoothed) * 0.05;
+
+        const thud = Math.sin(time * 60 * Math.PI * 2) * 0.4;
+        const envelope = Math.exp(-time * 14);
+
+        channelData[i] = (smoothed * 2 + thud) * envelope;
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * 生成电击音效（加速垫：快速上扫的方波）
+   */
+  private generateZapSound(): AudioBuffer {
+    if (!this.context) throw new Error('AudioContext not available');
+
+    const sampleRate = this.context.sampleRate;
+    const duration = 0.2;
+    const buffer = this.context.createBuffer(2, sampleRate * duration, sampleRate);
+
+    for (let channel = 0; channel < 2; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      let phase = 0;
+
+      for (let i = 0; i < channelData.length; i++) {
+        const time = i / sampleRate;
+
+        // 频率从 300Hz 快速升到 1800Hz
+        const freq = 300 + (time / duration) * 1500;
+        phase += (freq * Math.PI * 2) / sampleRate;
+
+        const envelope = Math.exp(-time * 10);
+
+        channelData[i] = Math.sign(Math.sin(phase)) * 0.2 * envelope;
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * 生成蜂鸣音效（死亡区：低沉刺耳的锯齿波）
+   */
+  private generateBuzzSound(): AudioBuffer {
+    if (!this.context) throw new Error('AudioContext not available');
+
+    const sampleRate = this.context.sampleRate;
+    const duration = 0.5;
+    const buffer = this.context.createBuffer(2, sampleRate * duration, sampleRate);
+
+    for (let channel = 0; channel < 2; channel++) {
+      const channelData = buffer.getChannelData(channel);
+
+      for (let i = 0; i < channelData.length; i++) {
+        const time = i / sampleRate;
+
+        // 两个略微失谐的锯齿波
+        const saw1 = ((time * 90) % 1) * 2 - 1;
+        const saw2 = ((time * 93) % 1) * 2 - 1;
+
+        const envelope = Math.min(time * 50, 1) * Math.exp(-time * 4);
+
+        channelData[i] = (saw1 + saw2) * 0.2 * envelope;
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * 生成铃声音效（得分边：上行的两个音）
+   */
+  private generateChimeSound(): AudioBuffer {
+    if (!this.context) throw new Error('AudioContext not available');
+
+    const sampleRate = this.context.sampleRate;
+    const duration = 0.4;
+    const buffer = this.context.createBuffer(2, sampleRate * duration, sampleRate);
+
+    for (let channel = 0; channel < 2; channel++) {
+      const channelData = buffer.getChannelData(channel);
+
+      for (let i = 0; i < channelData.length; i++) {
+        const time = i / sampleRate;
+
+        // 前 0.08 秒为第一个音，之后为高四度的第二个音
+        const freq = time < 0.08 ? 880 : 1175;
+        const start = time < 0.08 ? 0 : 0.08;
+        const tone = Math.sin(time * freq * Math.PI * 2) + Math.sin(time * freq * 2 * Math.PI * 2) * 0.3;
+
+        const envelope = Math.exp(-(time - start) * 12);
+
+        channelData[i] = tone * 0.3 * envelope;
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * 生成砖块音效（清脆的木块敲击声）
+   */
+  private generateBrickSound(): AudioBuffer {
+    if (!this.context) throw new Error('AudioContext not available');
+
+    const sampleRate = this.context.sampleRate;
+    const duration = 0.15;
+    const buffer = this.context.createBuffer(2, sampleRate * duration, sampleRate);
+
+    for (let channel = 0; channel < 2; channel++) {
+      const channelData = buffer.getChannelData(channel);
+
+      for (let i = 0; i < channelData.length; i++) {
+        const time = i / sampleRate;
+
+        // 两个不成谐波关系的高频分量加少量噪声
+        const knock = Math.sin(time * 520 * Math.PI * 2) * 0.5 + Math.sin(time * 1370 * Math.PI * 2) * 0.3;
+        const noise = (this.random.next() * 2 - 1) * 0.2;
+
+        const envelope = Math.exp(-time * 35);
+
+        channelData[i] = (knock + noise) * envelope;
+      }
+    }
+
+    return buffer;
+  }
+
+  /**
+   * 注入随机数生成器，并用它重新生成噪声音效
+   */
+  setRandom(random: Random) {
+    this.random = random;
+    this.generateSounds();
+  }
+
   /**
    * 播放音效
    */
@@ -0,0 +1,177 @@
+import { Vector } from './physics';
+import type { Vector2D } from './physics';
+import { closestPointOnSegment, isPointInsidePolygon } from './collision';
+import type { CollisionSegment } from './collision';
+
+/**
+ * 砖块：排列在同心圆环上、随容器旋转的短胶囊体
+ *
+ * angle 和 distance 为未旋转时砖块中点相对容器中心的极坐标，
+ * 砖块沿圆环的切线方向摆放。
+ */
+export interface Brick {
+  id: number;
+  ring: number; // 所在圆环，0 为最内圈
+  angle: number; // (rad)
+  distance: number; // 到容器中心的距离 (pixels)
+  length: number; // (pixels)
+  hitPoints: number;
+  maxHitPoints: number;
+}
+
+/**
+ * 道具类型
+ */
+export const PowerUpType = {
+  MULTI_BALL: 'multiBall', // 多球：额外分出两个小球
+  BIG_BALL: 'bigBall', // 大球：所有小球变大
+  SLOW_ROTATION: 'slowRotation', // 减速：容器旋转暂时变慢
+} as const;
+
+export type PowerUpType = typeof PowerUpType[keyof typeof PowerUpType];
+
+/**
+ * 砖块被打碎时掉落的道具（世界坐标，停留在原地等待小球拾取）
+ */
+export interface PowerUp {
+  id: number;
+  type: PowerUpType;
+  position: Vector2D;
+  remaining: number; // 剩余存在时间 (s)
+}
+
+/**
+ * 砖块厚度（胶囊体半径，pixels）
+ */
+export const BRICK_THICKNESS = 6;
+
+/**
+ * 砖块被打碎时掉落道具的概率
+ */
+export const POWER_UP_CHANCE = 0.25;
+
+/**
+ * 道具的拾取半径 (pixels) 和存在时间 (s)
+ */
+export const POWER_UP_RADIUS = 10;
+export const POWER_UP_LIFETIME = 8;
+
+/**
+ * 道具出现后需要经过该时间 (s) 才能被拾取，避免打碎砖块的小球当场拾取
+ */
+export const POWER_UP_ARM_TIME = 0.5;
+
+/**
+ * 减速道具的持续时间 (s) 和旋转速度倍率
+ */
+export const SLOW_ROTATION_DURATION = 10;
+export const SLOW_ROTATION_FACTOR = 0.4;
+
+/**
+ * 大球道具的放大倍率和半径上限 (pixels)
+ */
+export const BIG_BALL_SCALE = 1.5;
+export const MAX_BIG_BALL_RADIUS = 20;
+
+/**
+ * 各类道具的显示名称和颜色（"r, g, b"）
+ */
+export const POWER_UP_STYLES: Record<PowerUpType, { label: string; symbol: string; color: string }> = {
+  [PowerUpType.MULTI_BALL]: { label: '多球', symbol: '×3', color: '0, 200, 255' },
+  [PowerUpType.BIG_BALL]: { label: '大球', symbol: '●', color: '255, 120, 60' },
+  [PowerUpType.SLOW_ROTATION]: { label: '减速', symbol: '⟲', color: '120, 255, 120' },
+};
+
+/**
+ * 圆环到容器中心的距离（相对容器半径的比例），从内到外
+ */
+const RING_RATIOS = [0.4, 0.55, 0.7];
+
+/**
+ * 生成第 level 关的砖块：关卡越高圆环越多、砖块越结实
+ *
+ * vertices 为容器未旋转时相对中心的顶点；凹多边形等容器中小球碰不到的砖块不会生成。
+ */
+export function generateBricks(
+  level: number,
+  containerRadius: number,
+  vertices: Vector2D[],
+  ballRadius: number
+): Brick[] {
+  const ringCount = Math.min(1 + Math.floor(level / 2), RING_RATIOS.length);
+  const bricks: Brick[] = [];
+
+  for (let ring = 0; ring < ringCount; ring++) {
+    const distance = containerRadius * RING_RATIOS[ring];
+    const count = 8 + ring * 4;
+    const hitPoints = Math.min(1 + Math.floor((level - 1 + ring) / 2), 3);
+
+    // 每块砖占所在弧长的 70%，留出缝隙
+    const length = ((2 * Math.PI * distance) / count) * 0.7 - BRICK_THICKNESS * 2;
+
+    for (let i = 0; i < count; i++) {
+      bricks.push({
+        id: bricks.length,
+        ring,
+        angle: ((i + (ring % 2) * 0.5) / count) * Math.PI * 2,
+        distance,
+        length: Math.max(length, 4),
+        hitPoints,
+        maxHitPoints: hitPoints,
+      });
+    }
+  }
+
+  return bricks.filter((brick) => isBrickReachable(brick, vertices, ballRadius));
+}
+
+/**
+ * 二维叉积 (b - o) × (c - o)
+ */
+function cross(o: Vector2D, b: Vector2D, c: Vector2D): number {
+  return (b.x - o.x) * (c.y - o.y) - (b.y - o.y) * (c.x - o.x);
+}
+
+/**
+ * 两条线段之间的最短距离（相交时为 0）
+ */
+function segmentDistance(a: Vector2D, b: Vector2D, c: Vector2D, d: Vector2D): number {
+  if (cross(c, d, a) * cross(c, d, b) < 0 && cross(a, b, c) * cross(a, b, d) < 0) return 0;
+
+  return Math.min(
+    Vector.magnitude(Vector.subtract(a, closestPointOnSegment(a, c, d))),
+    Vector.magnitude(Vector.subtract(b, closestPointOnSegment(b, c, d))),
+    Vector.magnitude(Vector.subtract(c, closestPointOnSegment(c, a, b))),
+    Vector.magnitude(Vector.subtract(d, closestPointOnSegment(d, a, b)))
+  );
+}
+
+/**
+ * 砖块能否被小球打到：整块砖位于容器内，且离每条墙都留有砖块厚度加小球半径的距离
+ *
+ * vertices 为容器未旋转时相对中心的顶点（砖块随容器一起旋转）。
+ */
+export function isBrickReachable(brick: Brick, vertices: Vector2D[], ballRadius: number): boolean {
+  const { start, end } = getBrickSegment(brick, { x: 0, y: 0 }, 0);
+  if (!isPointInsidePolygon(start, vertices) || !isPointInsidePolygon(end, vertices)) return false;
+
+  const clearance = BRICK_THICKNESS + ballRadius;
+  return vertices.every((vertex, index) =>
+    segmentDistance(start, end, vertex, vertices[(index + 1) % vertices.length]) >= clearance
+  );
+}
+
+/**
+ * 砖块在当前容器旋转角度下的碰撞体
+ */
+export function getBrickSegment(brick: Brick, center: Vector2D, rotation: number): CollisionSegment {
+  const angle = brick.angle + rotation;
+  const middle = Vector.add(center, Vector.multiply({ x: Math.cos(angle), y: Math.sin(angle) }, brick.distance));
+  const half = Vector.multiply({ x: -Math.sin(angle), y: Math.cos(angle) }, brick.length / 2);
+
+  return {
+    start: Vector.subtract(middle, half),
+    end: Vector.add(middle, half),
+    thickness: BRICK_THICKNESS,
+  };
+}
@@ -1,13 +1,5 @@
-import { Vector } from './physics';
-import type { Vector2D } from './physics';
-
-/**
- * 六边形顶点类型定义
- */
-export interface HexagonVertex {
-  x: number;
-  y: number;
-}
+import { Vector, handleWallCollision, getSurfaceVelocity, PHYSICS_CONSTANTS } from './physics';
+import type { Ball, PhysicsParams, Vector2D, WallMotion } from './physics';
 
 /**
  * 线段类型定义
@@ -18,28 +10,71 @@ export interface LineSegment {
 }
 
 /**
- * 碰撞检测结果
+ * 墙面线段：记录所属多边形的边序号，可带有自身的运动状态
+ */
+export interface WallSegment extends LineSegment {
+  edgeIndex: number;
+  motion?: WallMotion; // 优先于整体的墙面运动
+  restitution?: number; // 覆盖默认的恢复系数（弹力墙）
+}
+
+/**
+ * 参与扫掠碰撞的线段：可带运动状态和恢复系数，
+ * thickness 大于 0 时为胶囊体（线段向四周加厚 thickness 像素，线段退化为点时即圆形）
+ */
+export type CollisionSegment = LineSegment & {
+  motion?: WallMotion;
+  restitution?: number;
+  thickness?: number;
+};
+
+/**
+ * 墙上的缺口：在指定边的中点处挖去 width 像素
  */
-export interface CollisionResult {
-  hasCollision: boolean;
-  distance: number;
-  wallStart: Vector2D;
-  wallEnd: Vector2D;
+export interface EdgeGaps {
+  edges: number[];
+  width: number;
 }
 
 /**
- * 生成六边形的顶点坐标
+ * 扫掠碰撞结果（time 为位移比例 0-1）
  */
-export function generateHexagonVertices(
+export interface SweepHit {
+  time: number;
+  normal: Vector2D; // 由墙面指向小球中心
+  point: Vector2D; // 墙面上的接触点
+}
+
+/**
+ * 小球与墙面的一次接触
+ */
+export interface WallContact {
+  segmentIndex: number;
+  point: Vector2D;
+  normal: Vector2D;
+  impactSpeed: number;
+  impactAngle: number; // 入射方向（相对墙面）与法线的夹角 (rad)，0 为正面撞击
+}
+
+/**
+ * 单个物理子步内允许的最大反弹次数
+ */
+export const MAX_BOUNCES_PER_STEP = 4;
+
+/**
+ * 生成正多边形的顶点坐标
+ */
+export function generatePolygonVertices(
   centerX: number,
   centerY: number,
   radius: number,
+  sides: number,
   rotation: number = 0
-): HexagonVertex[] {
-  const vertices: HexagonVertex[] = [];
+): Vector2D[] {
+  const vertices: Vector2D[] = [];
   
-  for (let i = 0; i < 6; i++) {
-    const angle = (Math.PI / 3) * i + rotation;
+  for (let i = 0; i < sides; i++) {
+    const angle = ((Math.PI * 2) / sides) * i + rotation;
     const x = centerX + radius * Math.cos(angle);
     const y = centerY + radius * Math.sin(angle);
     vertices.push({ x, y });
@@ -49,9 +84,9 @@ export function generateHexagonVertices(
 }
 
 /**
- * 获取六边形的边线段
+ * 获取多边形的边线段
  */
-export function getHexagonEdges(vertices: HexagonVertex[]): LineSegment[] {
+export function getPolygonEdges(vertices: Vector2D[]): LineSegment[] {
   const edges: LineSegment[] = [];
   
   for (let i = 0; i < vertices.length; i++) {
@@ -67,114 +102,301 @@ export function getHexagonEdges(vertices: HexagonVertex[]): LineSegment[] {
 }
 
 /**
- * 计算点到线段的最短距离
+ * 生成带缺口的墙面线段（有缺口的边被拆成两段，缺口比边长还宽时整条边移除）
  */
-export function pointToLineSegmentDistance(
+export function getWallSegments(vertices: Vector2D[], gaps?: EdgeGaps): WallSegment[] {
+  const segments: WallSegment[] = [];
+  
+  getPolygonEdges(vertices).forEach((edge, edgeIndex) => {
+    if (!gaps || gaps.width <= 0 || !gaps.edges.includes(edgeIndex)) {
+      segments.push({ ...edge, edgeIndex });
+      return;
+    }
+    
+    const wallVector = Vector.subtract(edge.end, edge.start);
+    const length = Vector.magnitude(wallVector);
+    const keep = (length - gaps.width) / 2;
+    if (keep <= 0) return;
+    
+    const direction = Vector.multiply(wallVector, 1 / length);
+    segments.push(
+      { start: edge.start, end: Vector.add(edge.start, Vector.multiply(direction, keep)), edgeIndex },
+      { start: Vector.subtract(edge.end, Vector.multiply(direction, keep)), end: edge.end, edgeIndex }
+    );
+  });
+  
+  return segments;
+}
+
+/**
+ * 在多边形的各边上均匀分布 count 个缺口所对应的边序号
+ */
+export function spreadGapEdges(sides: number, count: number): number[] {
+  const edges: number[] = [];
+  for (let i = 0; i < Math.min(count, sides); i++) {
+    edges.push(Math.floor((i * sides) / count));
+  }
+  return edges;
+}
+
+/**
+ * 多边形的有向面积（正负号表示顶点的环绕方向）
+ */
+export function getSignedArea(vertices: Vector2D[]): number {
+  let area = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/**
+ * 每条边的内法线（按环绕方向确定，凹多边形同样适用）
+ */
+export function getPolygonNormals(vertices: Vector2D[]): Vector2D[] {
+  const orientation = getSignedArea(vertices) >= 0 ? 1 : -1;
+  
+  return getPolygonEdges(vertices).map(edge => {
+    const wallVector = Vector.subtract(edge.end, edge.start);
+    return Vector.normalize({ x: -wallVector.y * orientation, y: wallVector.x * orientation });
+  });
+}
+
+/**
+ * 计算线段上距离某点最近的点
+ */
+export function closestPointOnSegment(
   point: Vector2D,
   lineStart: Vector2D,
   lineEnd: Vector2D
-): number {
-  const A = point.x - lineStart.x;
-  const B = point.y - lineStart.y;
+): Vector2D {
   const C = lineEnd.x - lineStart.x;
   const D = lineEnd.y - lineStart.y;
-  
-  const dot = A * C + B * D;
   const lenSq = C * C + D * D;
   
   if (lenSq === 0) {
     // 线段退化为点
-    return Math.sqrt(A * A + B * B);
+    return lineStart;
   }
   
-  let param = dot / lenSq;
-  
-  let closestPoint: Vector2D;
-  if (param < 0) {
-    closestPoint = lineStart;
-  } else if (param > 1) {
-    closestPoint = lineEnd;
-  } else {
-    closestPoint = {
-      x: lineStart.x + param * C,
-      y: lineStart.y + param * D,
-    };
-  }
+  const dot = (point.x - lineStart.x) * C + (point.y - lineStart.y) * D;
+  const param = Math.max(0, Math.min(1, dot / lenSq));
   
-  const dx = point.x - closestPoint.x;
-  const dy = point.y - closestPoint.y;
+  return {
+    x: lineStart.x + param * C,
+    y: lineStart.y + param * D,
+  };
+}
+
+/**
+ * 扫掠圆与端点（圆帽）的碰撞时间：求解 |p + d·t - v|² = r²
+ */
+function sweepCircleAgainstPoint(
+  position: Vector2D,
+  displacement: Vector2D,
+  radius: number,
+  vertex: Vector2D
+): SweepHit | null {
+  const m = Vector.subtract(position, vertex);
+  const a = Vector.dot(displacement, displacement);
+  const b = 2 * Vector.dot(m, displacement);
+  const c = Vector.dot(m, m) - radius * radius;
+  
+  // 没有移动或正在远离
+  if (a === 0 || b >= 0) return null;
+  
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
   
-  return Math.sqrt(dx * dx + dy * dy);
+  const time = (-b - Math.sqrt(discriminant)) / (2 * a);
+  if (time < 0 || time > 1) return null;
+  
+  const center = Vector.add(position, Vector.multiply(displacement, time));
+  return {
+    time,
+    normal: Vector.normalize(Vector.subtract(center, vertex)),
+    point: vertex,
+  };
 }
 
 /**
- * 检测小球是否与六边形发生碰撞
+ * 扫掠圆与线段的首次碰撞（线段两侧及两端的圆帽）
  */
-export function checkHexagonCollision(
-  ballPosition: Vector2D,
-  ballRadius: number,
-  hexagonCenter: Vector2D,
-  hexagonRadius: number,
-  rotation: number
-): CollisionResult {
-  // 生成六边形顶点
-  const vertices = generateHexagonVertices(
-    hexagonCenter.x,
-    hexagonCenter.y,
-    hexagonRadius,
-    rotation
-  );
+export function sweepCircleAgainstSegment(
+  position: Vector2D,
+  displacement: Vector2D,
+  radius: number,
+  lineStart: Vector2D,
+  lineEnd: Vector2D
+): SweepHit | null {
+  // 起点已经接触：只要还在靠近就立即碰撞
+  const closest = closestPointOnSegment(position, lineStart, lineEnd);
+  const offset = Vector.subtract(position, closest);
+  const distance = Vector.magnitude(offset);
   
-  // 获取六边形边线段
-  const edges = getHexagonEdges(vertices);
+  if (distance <= radius) {
+    if (distance === 0) return null;
+    const normal = Vector.multiply(offset, 1 / distance);
+    if (Vector.dot(displacement, normal) >= 0) return null;
+    return { time: 0, normal, point: closest };
+  }
   
-  let minDistance = Infinity;
-  let closestWall: LineSegment | null = null;
+  let bestHit: SweepHit | null = null;
   
-  // 检查与每条边的距离
-  for (const edge of edges) {
-    const distance = pointToLineSegmentDistance(ballPosition, edge.start, edge.end);
+  // 线段表面：法线朝向小球所在的一侧
+  const wallVector = Vector.subtract(lineEnd, lineStart);
+  const wallLengthSq = Vector.dot(wallVector, wallVector);
+  if (wallLengthSq > 0) {
+    let normal = Vector.normalize({ x: -wallVector.y, y: wallVector.x });
+    let signedDistance = Vector.dot(Vector.subtract(position, lineStart), normal);
+    if (signedDistance < 0) {
+      normal = Vector.multiply(normal, -1);
+      signedDistance = -signedDistance;
+    }
     
-    if (distance < minDistance) {
-      minDistance = distance;
-      closestWall = edge;
+    const approachSpeed = -Vector.dot(displacement, normal);
+    if (approachSpeed > 0) {
+      const time = (signedDistance - radius) / approachSpeed;
+      if (time >= 0 && time <= 1) {
+        const center = Vector.add(position, Vector.multiply(displacement, time));
+        const point = Vector.subtract(center, Vector.multiply(normal, radius));
+        const param = Vector.dot(Vector.subtract(point, lineStart), wallVector) / wallLengthSq;
+        if (param >= 0 && param <= 1) {
+          bestHit = { time, normal, point };
+        }
+      }
     }
   }
   
-  if (!closestWall) {
-    return {
-      hasCollision: false,
-      distance: Infinity,
-      wallStart: { x: 0, y: 0 },
-      wallEnd: { x: 0, y: 0 },
-    };
+  // 两端的圆帽
+  for (const vertex of [lineStart, lineEnd]) {
+    const hit = sweepCircleAgainstPoint(position, displacement, radius, vertex);
+    if (hit && (!bestHit || hit.time < bestHit.time)) {
+      bestHit = hit;
+    }
   }
   
-  return {
-    hasCollision: minDistance <= ballRadius,
-    distance: minDistance,
-    wallStart: closestWall.start,
-    wallEnd: closestWall.end,
-  };
+  return bestHit;
 }
 
 /**
- * 检查点是否在六边形内部
+ * 撞击前小球相对墙面的速度与墙面法线的夹角 (rad)
  */
-export function isPointInsideHexagon(
-  point: Vector2D,
-  hexagonCenter: Vector2D,
-  hexagonRadius: number,
-  rotation: number = 0
-): boolean {
-  // 生成六边形顶点
-  const vertices = generateHexagonVertices(
-    hexagonCenter.x,
-    hexagonCenter.y,
-    hexagonRadius,
-    rotation
-  );
+function getImpactAngle(velocity: Vector2D, normal: Vector2D, point: Vector2D, motion?: WallMotion): number {
+  const relative = motion ? Vector.subtract(velocity, getSurfaceVelocity(point, motion)) : velocity;
+  const speed = Vector.magnitude(relative);
+  if (speed === 0) return 0;
+  
+  const cosine = -Vector.dot(relative, normal) / speed;
+  return Math.acos(Math.max(-1, Math.min(1, cosine)));
+}
+
+/**
+ * 沿速度方向扫掠移动小球，按碰撞时间依次处理多次反弹
+ *
+ * 先解除墙面旋转造成的初始穿透，再在剩余时间内寻找最早的碰撞点，
+ * 移动到碰撞点并计算反弹后继续，直到时间用完或达到反弹次数上限。
+ * 线段两侧都可以碰撞，线段自带运动状态或恢复系数时优先使用它们；
+ * 有厚度的线段按小球半径加厚度计算，接触点取在胶囊体表面。
+ */
+export function moveBallWithCollisions(
+  ball: Ball,
+  deltaTime: number,
+  segments: CollisionSegment[],
+  motion?: WallMotion,
+  params: PhysicsParams = PHYSICS_CONSTANTS
+): { ball: Ball; contacts: WallContact[] } {
+  const contacts: WallContact[] = [];
+  let current = ball;
+  
+  // 解除初始穿透（旋转的墙面可能压入静止的小球）
+  for (let segmentIndex = 0; segmentIndex < segments.length; segmentIndex++) {
+    const segment = segments[segmentIndex];
+    const thickness = segment.thickness ?? 0;
+    const closest = closestPointOnSegment(current.position, segment.start, segment.end);
+    const offset = Vector.subtract(current.position, closest);
+    const distance = Vector.magnitude(offset);
+    if (distance >= current.radius + thickness || distance === 0) continue;
+    
+    const normal = Vector.multiply(offset, 1 / distance);
+    const surfacePoint = Vector.add(closest, Vector.multiply(normal, thickness));
+    const before = current.velocity;
+    current = handleWallCollision(
+      { ...current, position: Vector.add(surfacePoint, Vector.multiply(normal, current.radius)) },
+      normal,
+      surfacePoint,
+      segment.motion ?? motion,
+      params,
+      segment.restitution
+    );
+    
+    const impactSpeed = Vector.dot(Vector.subtract(current.velocity, before), normal);
+    if (impactSpeed > 0) {
+      const impactAngle = getImpactAngle(before, normal, surfacePoint, segment.motion ?? motion);
+      contacts.push({ segmentIndex, point: surfacePoint, normal, impactSpeed, impactAngle });
+    }
+  }
+  
+  let remaining = deltaTime;
+  
+  for (let bounce = 0; bounce < MAX_BOUNCES_PER_STEP && remaining > 0; bounce++) {
+    const displacement = Vector.multiply(current.velocity, remaining);
+    
+    // 寻找最早的碰撞
+    let hit: SweepHit | null = null;
+    let hitIndex = -1;
+    for (let segmentIndex = 0; segmentIndex < segments.length; segmentIndex++) {
+      const segment = segments[segmentIndex];
+      const candidate = sweepCircleAgainstSegment(
+        current.position,
+        displacement,
+        current.radius + (segment.thickness ?? 0),
+        segment.start,
+        segment.end
+      );
+      if (candidate && (!hit || candidate.time < hit.time)) {
+        hit = candidate;
+        hitIndex = segmentIndex;
+      }
+    }
+    
+    if (!hit) {
+      current = { ...current, position: Vector.add(current.position, displacement) };
+      remaining = 0;
+      break;
+    }
+    
+    // 移动到碰撞点并计算反弹
+    const surfacePoint = Vector.add(hit.point, Vector.multiply(hit.normal, segments[hitIndex].thickness ?? 0));
+    const before = current.velocity;
+    current = handleWallCollision(
+      { ...current, position: Vector.add(current.position, Vector.multiply(displacement, hit.time)) },
+      hit.normal,
+      surfacePoint,
+      segments[hitIndex].motion ?? motion,
+      params,
+      segments[hitIndex].restitution
+    );
+    remaining *= 1 - hit.time;
+    
+    contacts.push({
+      segmentIndex: hitIndex,
+      point: surfacePoint,
+      normal: hit.normal,
+      impactSpeed: Vector.dot(Vector.subtract(current.velocity, before), hit.normal),
+      impactAngle: getImpactAngle(before, hit.normal, surfacePoint, segments[hitIndex].motion ?? motion),
+    });
+  }
   
+  return { ball: current, contacts };
+}
+
+/**
+ * 检查点是否在多边形内部（凸凹均可）
+ */
+export function isPointInsidePolygon(point: Vector2D, vertices: Vector2D[]): boolean {
   // 使用射线投射算法
   let inside = false;
   
@@ -196,42 +418,58 @@ export function isPointInsideHexagon(
 }
 
 /**
- * 确保小球在六边形内部（防止初始化时在外部）
+ * 将圆约束在多边形内部（保证小球不会出现在容器外）
+ *
+ * 每轮找出离圆心最近的边界点：圆心在内部时沿远离边界的方向推开，
+ * 在外部时沿内法线拉回。凹角处最近点是顶点，推开方向自然由顶点指向圆心。
+ * 多轮迭代处理角落；容器太窄放不下小球时退回到多边形中心。
  */
-export function constrainBallInsideHexagon(
-  ballPosition: Vector2D,
-  ballRadius: number,
-  hexagonCenter: Vector2D,
-  hexagonRadius: number,
-  rotation: number
+export function containCircleInPolygon(
+  position: Vector2D,
+  radius: number,
+  vertices: Vector2D[]
 ): Vector2D {
-  const collision = checkHexagonCollision(
-    ballPosition,
-    ballRadius,
-    hexagonCenter,
-    hexagonRadius,
-    rotation
-  );
-  
-  if (!collision.hasCollision) {
-    return ballPosition;
-  }
+  const edges = getPolygonEdges(vertices);
+  const normals = getPolygonNormals(vertices);
   
-  // 如果发生碰撞，将小球推向六边形中心
-  const directionToCenter = Vector.subtract(hexagonCenter, ballPosition);
-  const distanceToCenter = Vector.magnitude(directionToCenter);
+  const findClosest = (point: Vector2D) => {
+    let closest = edges[0].start;
+    let closestIndex = 0;
+    let minDistance = Infinity;
+    edges.forEach((edge, index) => {
+      const candidate = closestPointOnSegment(point, edge.start, edge.end);
+      const distance = Vector.magnitude(Vector.subtract(point, candidate));
+      if (distance < minDistance) {
+        minDistance = distance;
+        closest = candidate;
+        closestIndex = index;
+      }
+    });
+    return { closest, closestIndex, distance: minDistance };
+  };
   
-  if (distanceToCenter === 0) {
-    // 如果小球正好在中心，随机选择一个方向
-    return Vector.add(ballPosition, { x: Math.random() - 0.5, y: Math.random() - 0.5 });
+  let constrained = position;
+  for (let pass = 0; pass < 8; pass++) {
+    const inside = isPointInsidePolygon(constrained, vertices);
+    const { closest, closestIndex, distance } = findClosest(constrained);
+    if (inside && distance >= radius) return constrained;
+    
+    const offset = Vector.subtract(constrained, closest);
+    let direction = normals[closestIndex];
+    if (distance > 0) {
+      direction = Vector.multiply(offset, (inside ? 1 : -1) / distance);
+    }
+    constrained = Vector.add(closest, Vector.multiply(direction, radius));
   }
   
-  const normalizedDirection = Vector.normalize(directionToCenter);
-  const safeDistance = hexagonRadius - ballRadius - 10; // 留10像素安全距离
-  const safePosition = Vector.add(
-    hexagonCenter,
-    Vector.multiply(normalizedDirection, -safeDistance)
-  );
+  // 容器太窄放不下小球时，退回到仍在内部的位置
+  if (!isPointInsidePolygon(constrained, vertices)) {
+    const centroid = Vector.multiply(
+      vertices.reduce((sum, vertex) => Vector.add(sum, vertex), { x: 0, y: 0 }),
+      1 / vertices.length
+    );
+    return isPointInsidePolygon(centroid, vertices) ? centroid : position;
+  }
   
-  return safePosition;
-}
\ No newline at end of file
+  return constrained;
+}
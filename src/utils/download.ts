@@ -0,0 +1,14 @@
+/**
+ * 以文件形式下载文本内容
+ */
+export function downloadText(filename: string, text: string, type: string = 'application/json') {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
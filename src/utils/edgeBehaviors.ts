@@ -0,0 +1,52 @@
+/**
+ * 墙面类型：决定小球撞到某条边时的额外效果
+ */
+export const EdgeBehavior = {
+  NORMAL: 'normal', // 普通墙面
+  BOUNCY: 'bouncy', // 弹力墙：恢复系数大于 1，越撞越快
+  STICKY: 'sticky', // 粘性墙：把小球吸住一小段时间
+  BOOST: 'boost', // 加速垫：沿法线方向追加固定冲量
+  DEAD: 'dead', // 死亡区：碰到即结束本轮
+  SCORE: 'score', // 得分边：碰到获得额外分数
+} as const;
+
+export type EdgeBehavior = typeof EdgeBehavior[keyof typeof EdgeBehavior];
+
+/**
+ * 弹力墙的恢复系数
+ */
+export const BOUNCY_RESTITUTION = 1.2;
+
+/**
+ * 粘性墙吸住小球的时间 (s)
+ */
+export const STICK_DURATION = 0.6;
+
+/**
+ * 加速垫施加的冲量 (质量 × pixels/s)
+ */
+export const BOOST_IMPULSE = 400;
+
+/**
+ * 得分边每次碰撞的奖励分数
+ */
+export const SCORE_EDGE_BONUS = 50;
+
+/**
+ * 各类墙面的显示名称和颜色（"r, g, b"）
+ */
+export const EDGE_BEHAVIOR_STYLES: Record<EdgeBehavior, { label: string; color: string }> = {
+  [EdgeBehavior.NORMAL]: { label: '普通', color: '0, 255, 136' },
+  [EdgeBehavior.BOUNCY]: { label: '弹力墙', color: '255, 0, 200' },
+  [EdgeBehavior.STICKY]: { label: '粘性墙', color: '160, 110, 60' },
+  [EdgeBehavior.BOOST]: { label: '加速垫', color: '0, 160, 255' },
+  [EdgeBehavior.DEAD]: { label: '死亡区', color: '255, 40, 40' },
+  [EdgeBehavior.SCORE]: { label: '得分边', color: '255, 215, 0' },
+};
+
+/**
+ * 第 edgeIndex 条边的类型（未配置的边为普通墙面）
+ */
+export function getEdgeBehavior(behaviors: EdgeBehavior[], edgeIndex: number): EdgeBehavior {
+  return behaviors[edgeIndex] ?? EdgeBehavior.NORMAL;
+}
@@ -0,0 +1,119 @@
+import { Vector } from './physics';
+import type { Vector2D } from './physics';
+import type { CollisionSegment } from './collision';
+import { getInscribedRatio } from './shapes';
+import type { ContainerShape } from './shapes';
+
+/**
+ * 挡板位置
+ */
+export const FlipperSide = {
+  LEFT: 'left',
+  RIGHT: 'right',
+} as const;
+
+export type FlipperSide = typeof FlipperSide[keyof typeof FlipperSide];
+
+/**
+ * 单个挡板的状态
+ */
+export interface FlipperState {
+  lift: number; // 抬起的角度 (rad)，0 为静止位置
+  liftSpeed: number; // 抬起的角速度 (rad/s)，放下时为负值
+  pressed: boolean;
+}
+
+/**
+ * 弹球模式的初始生命数
+ */
+export const PINBALL_LIVES = 3;
+
+/**
+ * 挡板几何参数（相对容器半径的比例）
+ */
+const PIVOT_X_RATIO = 0.5; // 转轴到中心的水平距离
+const PIVOT_Y_RATIO = 0.55; // 转轴在中心下方的距离
+const LENGTH_RATIO = 0.38; // 挡板长度
+
+/**
+ * 挡板厚度（胶囊体半径，pixels）
+ */
+export const FLIPPER_THICKNESS = 7;
+
+/**
+ * 静止时向下倾斜的角度和最大抬起角度 (rad)
+ */
+const REST_ANGLE = 0.5;
+const MAX_LIFT = 1.0;
+
+/**
+ * 挡板转动速度 (rad/s)
+ */
+const FLIPPER_SPEED = 18;
+
+/**
+ * 小球中心低于容器中心该比例的半径时视为掉出挡板下方
+ */
+export const DRAIN_RATIO = 0.8;
+
+/**
+ * 创建左右两个静止的挡板
+ */
+export function createFlippers(): Record<FlipperSide, FlipperState> {
+  return {
+    [FlipperSide.LEFT]: { lift: 0, liftSpeed: 0, pressed: false },
+    [FlipperSide.RIGHT]: { lift: 0, liftSpeed: 0, pressed: false },
+  };
+}
+
+/**
+ * 按按键状态把挡板转向抬起或静止位置，记录实际角速度用于碰撞
+ */
+export function updateFlipper(state: FlipperState, deltaTime: number): FlipperState {
+  const target = state.pressed ? MAX_LIFT : 0;
+  const maxStep = FLIPPER_SPEED * deltaTime;
+  const lift = state.lift + Math.max(-maxStep, Math.min(maxStep, target - state.lift));
+
+  return { ...state, lift, liftSpeed: (lift - state.lift) / deltaTime };
+}
+
+/**
+ * 挡板的碰撞体：绕转轴转动的胶囊体，运动状态为挡板当前的角速度
+ *
+ * 左挡板向右下方伸出，抬起时逆时针转动；右挡板与其镜像。
+ * 画布 y 轴向下，顺时针为正角度。
+ */
+export function getFlipperSegment(
+  side: FlipperSide,
+  state: FlipperState,
+  center: Vector2D,
+  radius: number
+): CollisionSegment {
+  const isLeft = side === FlipperSide.LEFT;
+  const pivot = {
+    x: center.x + (isLeft ? -1 : 1) * PIVOT_X_RATIO * radius,
+    y: center.y + PIVOT_Y_RATIO * radius,
+  };
+  const angle = isLeft ? REST_ANGLE - state.lift : Math.PI - REST_ANGLE + state.lift;
+  const tip = Vector.add(pivot, Vector.multiply({ x: Math.cos(angle), y: Math.sin(angle) }, LENGTH_RATIO * radius));
+
+  return {
+    start: pivot,
+    end: tip,
+    thickness: FLIPPER_THICKNESS,
+    motion: { center: pivot, angularVelocity: isLeft ? -state.liftSpeed : state.liftSpeed },
+  };
+}
+
+/**
+ * 挡板固定在画面上而容器在旋转，只有挡板始终落在容器内切圆内的形状才能玩弹球模式
+ *
+ * 即边数较多的正多边形；星形、L 形等凹多边形以及三角形、正方形会让挡板转到墙外。
+ */
+export function supportsPinball(shape: ContainerShape): boolean {
+  const center = { x: 0, y: 0 };
+  const { start, end } = getFlipperSegment(FlipperSide.LEFT, createFlippers()[FlipperSide.LEFT], center, 1);
+  const reach = Math.max(Vector.magnitude(start), Vector.magnitude(end));
+
+  return getInscribedRatio(shape) >= reach;
+}
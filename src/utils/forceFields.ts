@@ -0,0 +1,125 @@
+import { Vector } from './physics';
+import type { Vector2D } from './physics';
+
+/**
+ * 力场类型
+ */
+export const ForceFieldType = {
+  ATTRACTOR: 'attractor', // 吸引：指向力场中心
+  REPELLER: 'repeller', // 排斥：背离力场中心
+  VORTEX: 'vortex', // 漩涡：绕力场中心旋转
+  WIND: 'wind', // 风区：固定方向
+} as const;
+
+export type ForceFieldType = typeof ForceFieldType[keyof typeof ForceFieldType];
+
+/**
+ * 力随距离的衰减方式
+ */
+export const FieldFalloff = {
+  NONE: 'none', // 范围内强度不变
+  LINEAR: 'linear', // 从中心到边缘线性减弱
+  QUADRATIC: 'quadratic', // 从中心到边缘按平方减弱
+} as const;
+
+export type FieldFalloff = typeof FieldFalloff[keyof typeof FieldFalloff];
+
+/**
+ * 用户放置的力场
+ */
+export interface ForceField {
+  id: number;
+  type: ForceFieldType;
+  position: Vector2D;
+  radius: number; // 作用范围 (pixels)
+  strength: number; // 中心处的加速度 (pixels/s²)，漩涡为负值时逆时针旋转
+  falloff: FieldFalloff;
+  angle: number; // 风向 (rad)，0 为向右，仅风区使用
+}
+
+/**
+ * 各类型力场的显示名称和颜色（"r, g, b"）
+ */
+export const FORCE_FIELD_STYLES: Record<ForceFieldType, { label: string; color: string }> = {
+  [ForceFieldType.ATTRACTOR]: { label: '吸引子', color: '0, 200, 255' },
+  [ForceFieldType.REPELLER]: { label: '排斥子', color: '255, 90, 90' },
+  [ForceFieldType.VORTEX]: { label: '漩涡', color: '190, 120, 255' },
+  [ForceFieldType.WIND]: { label: '风区', color: '255, 220, 100' },
+};
+
+/**
+ * 创建带默认参数的力场
+ */
+export function createForceField(type: ForceFieldType, position: Vector2D, id: number): ForceField {
+  return {
+    id,
+    type,
+    position,
+    radius: 90,
+    strength: type === ForceFieldType.WIND ? 400 : 900,
+    falloff: type === ForceFieldType.WIND ? FieldFalloff.NONE : FieldFalloff.LINEAR,
+    angle: 0,
+  };
+}
+
+/**
+ * 距离 distance 处的衰减系数（范围外为 0）
+ */
+function getFalloffFactor(field: ForceField, distance: number): number {
+  if (distance >= field.radius) return 0;
+
+  const t = 1 - distance / field.radius;
+  switch (field.falloff) {
+    case FieldFalloff.NONE:
+      return 1;
+    case FieldFalloff.LINEAR:
+      return t;
+    case FieldFalloff.QUADRATIC:
+      return t * t;
+  }
+}
+
+/**
+ * 单个力场在某一位置产生的加速度
+ */
+export function getFieldAcceleration(field: ForceField, position: Vector2D): Vector2D {
+  const offset = Vector.subtract(position, field.position);
+  const factor = getFalloffFactor(field, Vector.magnitude(offset));
+  if (factor === 0) return { x: 0, y: 0 };
+
+  const magnitude = field.strength * factor;
+  const outward = Vector.normalize(offset);
+
+  switch (field.type) {
+    case ForceFieldType.ATTRACTOR:
+      return Vector.multiply(outward, -magnitude);
+    case ForceFieldType.REPELLER:
+      return Vector.multiply(outward, magnitude);
+    case ForceFieldType.VORTEX:
+      return Vector.multiply({ x: -outward.y, y: outward.x }, magnitude);
+    case ForceFieldType.WIND:
+      return Vector.multiply({ x: Math.cos(field.angle), y: Math.sin(field.angle) }, magnitude);
+  }
+}
+
+/**
+ * 所有力场在某一位置产生的合加速度
+ */
+export function sumFieldAcceleration(fields: ForceField[], position: Vector2D): Vector2D {
+  return fields.reduce(
+    (sum, field) => Vector.add(sum, getFieldAcceleration(field, position)),
+    { x: 0, y: 0 }
+  );
+}
+
+/**
+ * 查找某一位置上的力场（点中力场中心附近），后放置的优先
+ */
+export function findFieldAt(fields: ForceField[], position: Vector2D, tolerance: number = 16): ForceField | null {
+  for (let i = fields.length - 1; i >= 0; i--) {
+    if (Vector.magnitude(Vector.subtract(position, fields[i].position)) <= tolerance) {
+      return fields[i];
+    }
+  }
+  return null;
+}
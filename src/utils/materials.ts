@@ -0,0 +1,69 @@
+/**
+ * 小球材质
+ */
+export const MaterialId = {
+  RUBBER: 'rubber',
+  STEEL: 'steel',
+  GLASS: 'glass',
+  PUTTY: 'putty',
+} as const;
+
+export type MaterialId = typeof MaterialId[keyof typeof MaterialId];
+
+/**
+ * 材质属性
+ *
+ * 与墙面接触时，恢复系数和摩擦系数分别与墙面的系数取几何平均；
+ * 两个小球相碰时取双方恢复系数的几何平均。
+ */
+export interface Material {
+  label: string;
+  restitution: number; // 恢复系数
+  friction: number; // 摩擦系数
+  density: number; // 面密度（质量 = 半径² × 密度）
+  color: string; // 主色
+  glow: string; // 发光和拖尾颜色
+  shade: string; // 边缘暗部颜色
+}
+
+/**
+ * 材质表
+ */
+export const MATERIALS: Record<MaterialId, Material> = {
+  [MaterialId.RUBBER]: {
+    label: '橡胶',
+    restitution: 0.9,
+    friction: 0.3,
+    density: 1 / 64, // 半径 8px 的橡胶球质量为 1
+    color: '#ff6b6b',
+    glow: '#ee5a24',
+    shade: '#c0392b',
+  },
+  [MaterialId.STEEL]: {
+    label: '钢',
+    restitution: 0.6,
+    friction: 0.15,
+    density: 1 / 8,
+    color: '#cfd8dc',
+    glow: '#90a4ae',
+    shade: '#455a64',
+  },
+  [MaterialId.GLASS]: {
+    label: '玻璃',
+    restitution: 0.8,
+    friction: 0.05,
+    density: 1 / 24,
+    color: '#84ffff',
+    glow: '#18ffff',
+    shade: '#00838f',
+  },
+  [MaterialId.PUTTY]: {
+    label: '橡皮泥',
+    restitution: 0.1,
+    friction: 0.9,
+    density: 1 / 40,
+    color: '#d7a86e',
+    glow: '#a1887f',
+    shade: '#5d4037',
+  },
+};
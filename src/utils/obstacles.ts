@@ -0,0 +1,109 @@
+import { Vector } from './physics';
+import type { Vector2D } from './physics';
+import { closestPointOnSegment } from './collision';
+import type { CollisionSegment } from './collision';
+
+/**
+ * 障碍物类型
+ */
+export const ObstacleType = {
+  PEG: 'peg', // 圆柱钉
+  BAR: 'bar', // 胶囊形横杆
+  BUMPER: 'bumper', // 弹射器：被撞时追加弹射冲量并闪光
+} as const;
+
+export type ObstacleType = typeof ObstacleType[keyof typeof ObstacleType];
+
+/**
+ * 放置在容器内部的静态障碍物
+ *
+ * offset 为相对容器中心的位置：随容器旋转的障碍物记录未旋转时的位置，
+ * 固定的障碍物直接加上中心即为世界坐标。
+ */
+export interface Obstacle {
+  id: number;
+  type: ObstacleType;
+  offset: Vector2D;
+  radius: number; // 钉子和弹射器的半径，横杆的半宽 (pixels)
+  length: number; // 横杆长度 (pixels)，其他类型为 0
+  angle: number; // 横杆方向 (rad)
+  rotating: boolean; // 是否随容器一起旋转
+}
+
+/**
+ * 弹射器追加的速度 (pixels/s)，沿碰撞法线方向
+ */
+export const BUMPER_KICK = 350;
+
+/**
+ * 弹射器被撞后的闪光时长 (s)
+ */
+export const BUMPER_FLASH_DURATION = 0.25;
+
+/**
+ * 各类障碍物的显示名称和颜色（"r, g, b"）
+ */
+export const OBSTACLE_STYLES: Record<ObstacleType, { label: string; color: string }> = {
+  [ObstacleType.PEG]: { label: '钉子', color: '200, 200, 255' },
+  [ObstacleType.BAR]: { label: '横杆', color: '255, 170, 60' },
+  [ObstacleType.BUMPER]: { label: '弹射器', color: '255, 60, 160' },
+};
+
+/**
+ * 创建带默认尺寸的障碍物
+ */
+export function createObstacle(type: ObstacleType, offset: Vector2D, id: number, rotating: boolean): Obstacle {
+  return {
+    id,
+    type,
+    offset,
+    radius: type === ObstacleType.BUMPER ? 18 : type === ObstacleType.BAR ? 5 : 6,
+    length: type === ObstacleType.BAR ? 80 : 0,
+    angle: 0,
+    rotating,
+  };
+}
+
+/**
+ * 障碍物在当前容器旋转角度下的碰撞体：钉子和弹射器为退化成点的胶囊体
+ */
+export function getObstacleSegment(obstacle: Obstacle, center: Vector2D, rotation: number): CollisionSegment {
+  const turn = obstacle.rotating ? rotation : 0;
+  const position = Vector.add(center, Vector.rotate(obstacle.offset, turn));
+  const half = Vector.rotate({ x: obstacle.length / 2, y: 0 }, obstacle.angle + turn);
+
+  return {
+    start: Vector.subtract(position, half),
+    end: Vector.add(position, half),
+    thickness: obstacle.radius,
+  };
+}
+
+/**
+ * 把世界坐标转换为障碍物的 offset
+ */
+export function toObstacleOffset(point: Vector2D, center: Vector2D, rotation: number, rotating: boolean): Vector2D {
+  const offset = Vector.subtract(point, center);
+  return rotating ? Vector.rotate(offset, -rotation) : offset;
+}
+
+/**
+ * 查找某一位置上的障碍物（点中碰撞体附近），后放置的优先
+ */
+export function findObstacleAt(
+  obstacles: Obstacle[],
+  point: Vector2D,
+  center: Vector2D,
+  rotation: number,
+  tolerance: number = 6
+): Obstacle | null {
+  for (let i = obstacles.length - 1; i >= 0; i--) {
+    const { start, end, thickness = 0 } = getObstacleSegment(obstacles[i], center, rotation);
+    const closest = closestPointOnSegment(point, start, end);
+
+    if (Vector.magnitude(Vector.subtract(point, closest)) <= thickness + tolerance) {
+      return obstacles[i];
+    }
+  }
+  return null;
+}
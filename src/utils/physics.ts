@@ -1,3 +1,5 @@
+import { MATERIALS, MaterialId } from './materials';
+
 // 二维向量类型定义
 export interface Vector2D {
   x: number;
@@ -6,19 +8,102 @@ export interface Vector2D {
 
 // 小球状态类型定义
 export interface Ball {
+  id: number;
   position: Vector2D;
   velocity: Vector2D;
   radius: number;
+  mass: number;
+  angularVelocity: number; // 自转角速度 (rad/s)，正值在屏幕上为顺时针
+  angle: number; // 自转角度 (rad)，用于绘制
+  material: MaterialId;
+  stuck?: StuckState; // 被粘性墙面吸住时存在
+}
+
+/**
+ * 小球被粘性墙面吸住的状态
+ */
+export interface StuckState {
+  remaining: number; // 剩余时间 (s)
+  offset: Vector2D; // 相对容器中心、未旋转时的位置，随容器一起转动
 }
 
-// 物理常量
+// 物理常量（默认值，运行时可通过 PhysicsParams 修改）
 export const PHYSICS_CONSTANTS = {
-  GRAVITY: 500, // 重力加速度 (pixels/s²)
-  FRICTION: 0.98, // 摩擦系数
-  BOUNCE_DAMPING: 0.85, // 反弹能量损失系数
+  FRICTION: 0.3, // 空气阻力：每秒保留的速度比例
+  BOUNCE_DAMPING: 0.85, // 墙面恢复系数（与小球材质取几何平均）
+  WALL_FRICTION: 0.3, // 墙面切向摩擦系数（与小球材质取几何平均）
   MIN_VELOCITY: 0.1, // 最小速度阈值
+  POSITION_CORRECTION: 0.8, // 穿透修正比例
+  POSITION_SLOP: 0.01, // 允许的穿透容差 (pixels)
+  ROLLING_FRICTION: 0.02, // 滚动阻力系数
+  ANGULAR_DAMPING: 0.7, // 空中自转衰减：每秒保留的角速度比例
+  MAGNUS_COEFFICIENT: 0.03, // 马格努斯力系数（加速度 = 系数 × ω × v）
+} as const;
+
+/**
+ * 运行时可修改的物理参数
+ */
+export type PhysicsParams = { -readonly [K in keyof typeof PHYSICS_CONSTANTS]: number };
+
+/**
+ * 重力模式
+ */
+export const GravityMode = {
+  FIXED: 'fixed', // 固定方向
+  ATTRACT: 'attract', // 指向容器中心
+  REPEL: 'repel', // 背离容器中心
+  FRAME: 'frame', // 固定在旋转容器的参考系中，"下"随容器转动
+  ZERO: 'zero', // 失重
 } as const;
 
+export type GravityMode = typeof GravityMode[keyof typeof GravityMode];
+
+/**
+ * 重力设置
+ */
+export interface GravitySettings {
+  mode: GravityMode;
+  strength: number; // 重力加速度大小 (pixels/s²)
+  angle: number; // 方向角 (rad)，0 为竖直向下，正值顺时针；用于固定方向和随容器旋转模式
+}
+
+/**
+ * 默认重力：竖直向下
+ */
+export const DEFAULT_GRAVITY: GravitySettings = {
+  mode: GravityMode.FIXED,
+  strength: 500,
+  angle: 0,
+};
+
+/**
+ * 每步受力计算的可选项
+ */
+export interface PhysicsOptions {
+  gravity?: Vector2D; // 重力加速度，默认竖直向下
+  forces?: Vector2D; // 其他外力（力场等）产生的合加速度
+  magnus?: boolean; // 是否计算旋转小球受到的马格努斯力
+  params?: PhysicsParams; // 物理参数，默认为 PHYSICS_CONSTANTS
+}
+
+/**
+ * 墙面的运动状态（绕中心旋转）
+ */
+export interface WallMotion {
+  center: Vector2D;
+  angularVelocity: number; // 角速度 (rad/s)
+}
+
+/**
+ * 小球之间的碰撞结果
+ */
+export interface BallCollisionResult {
+  a: Ball;
+  b: Ball;
+  impactSpeed: number;
+  point: Vector2D;
+}
+
 // 向量工具函数
 export class Vector {
   /**
@@ -95,86 +180,290 @@ export class Vector {
 }
 
 /**
- * 更新小球的物理状态
+ * 计算某一位置的重力加速度
+ * 
+ * center 为容器中心，frameRotation 为容器当前的旋转角度。
+ */
+export function getGravityAcceleration(
+  gravity: GravitySettings,
+  position: Vector2D,
+  center: Vector2D,
+  frameRotation: number
+): Vector2D {
+  const down = { x: 0, y: gravity.strength };
+  
+  switch (gravity.mode) {
+    case GravityMode.FIXED:
+      return Vector.rotate(down, gravity.angle);
+    case GravityMode.FRAME:
+      return Vector.rotate(down, gravity.angle + frameRotation);
+    case GravityMode.ATTRACT:
+      return Vector.multiply(Vector.normalize(Vector.subtract(center, position)), gravity.strength);
+    case GravityMode.REPEL:
+      return Vector.multiply(Vector.normalize(Vector.subtract(position, center)), gravity.strength);
+    case GravityMode.ZERO:
+      return { x: 0, y: 0 };
+  }
+}
+
+/**
+ * 实心圆盘的转动惯量 (½mr²)
+ */
+export function momentOfInertia(ball: Ball): number {
+  return 0.5 * ball.mass * ball.radius * ball.radius;
+}
+
+/**
+ * 二维叉积（标量）
  */
-export function updateBallPhysics(ball: Ball, deltaTime: number): Ball {
+function cross(a: Vector2D, b: Vector2D): number {
+  return a.x * b.y - a.y * b.x;
+}
+
+/**
+ * 更新小球的速度和自转（重力、外力、马格努斯力与空气阻力）
+ * 
+ * 位置由碰撞检测中的扫掠移动推进，避免高速时穿墙。
+ */
+export function updateBallPhysics(ball: Ball, deltaTime: number, options: PhysicsOptions = {}): Ball {
+  const params = options.params ?? PHYSICS_CONSTANTS;
+  
   // 应用重力
-  const gravity = Vector.create(0, PHYSICS_CONSTANTS.GRAVITY);
+  const gravity = options.gravity ?? Vector.create(0, DEFAULT_GRAVITY.strength);
   const gravityForce = Vector.multiply(gravity, deltaTime);
   
   // 更新速度（加上重力影响）
   let newVelocity = Vector.add(ball.velocity, gravityForce);
   
-  // 应用摩擦力
-  newVelocity = Vector.multiply(newVelocity, PHYSICS_CONSTANTS.FRICTION);
+  // 叠加外力
+  if (options.forces) {
+    newVelocity = Vector.add(newVelocity, Vector.multiply(options.forces, deltaTime));
+  }
+  
+  // 马格努斯力：垂直于速度方向，使旋转的小球在空中走弧线
+  if (options.magnus) {
+    const magnus = Vector.multiply(
+      { x: -ball.angularVelocity * ball.velocity.y, y: ball.angularVelocity * ball.velocity.x },
+      params.MAGNUS_COEFFICIENT * deltaTime
+    );
+    newVelocity = Vector.add(newVelocity, magnus);
+  }
+  
+  // 应用摩擦力（按时间折算，与帧率无关）
+  newVelocity = Vector.multiply(newVelocity, Math.pow(params.FRICTION, deltaTime));
   
   // 如果速度太小，设为零
-  if (Vector.magnitude(newVelocity) < PHYSICS_CONSTANTS.MIN_VELOCITY) {
+  if (Vector.magnitude(newVelocity) < params.MIN_VELOCITY) {
     newVelocity = { x: 0, y: 0 };
   }
   
-  // 更新位置
-  const velocityDelta = Vector.multiply(newVelocity, deltaTime);
-  const newPosition = Vector.add(ball.position, velocityDelta);
-  
   return {
     ...ball,
-    position: newPosition,
     velocity: newVelocity,
+    angularVelocity: ball.angularVelocity * Math.pow(params.ANGULAR_DAMPING, deltaTime),
+    angle: ball.angle + ball.angularVelocity * deltaTime,
+  };
+}
+
+/**
+ * 计算旋转墙面上某一点的线速度（ω × r）
+ */
+export function getSurfaceVelocity(point: Vector2D, motion: WallMotion): Vector2D {
+  const r = Vector.subtract(point, motion.center);
+  return {
+    x: -motion.angularVelocity * r.y,
+    y: motion.angularVelocity * r.x,
+  };
+}
+
+/**
+ * 在两个物理步之间插值小球的渲染状态
+ */
+export function interpolateBall(previous: Ball, current: Ball, alpha: number): Ball {
+  return {
+    ...current,
+    position: {
+      x: previous.position.x + (current.position.x - previous.position.x) * alpha,
+      y: previous.position.y + (current.position.y - previous.position.y) * alpha,
+    },
+    velocity: {
+      x: previous.velocity.x + (current.velocity.x - previous.velocity.x) * alpha,
+      y: previous.velocity.y + (current.velocity.y - previous.velocity.y) * alpha,
+    },
+    angle: previous.angle + (current.angle - previous.angle) * alpha,
   };
 }
 
 /**
  * 处理小球与墙面的碰撞
+ * 
+ * 传入墙面运动状态时，碰撞响应基于小球相对接触点墙面的速度计算，
+ * 切向摩擦会让旋转的墙面带动并甩出小球。位置由调用方负责修正。
+ * 传入 restitution 时覆盖由墙面参数和材质算出的恢复系数（例如弹力墙）。
  */
 export function handleWallCollision(
   ball: Ball,
-  wallStart: Vector2D,
-  wallEnd: Vector2D,
-  distance: number
+  wallNormal: Vector2D,
+  contactPoint: Vector2D,
+  motion?: WallMotion,
+  params: PhysicsParams = PHYSICS_CONSTANTS,
+  restitution?: number
 ): Ball {
-  if (distance > ball.radius) return ball;
-  
-  // 计算墙面法向量
-  const wallVector = Vector.subtract(wallEnd, wallStart);
-  const wallNormal = Vector.normalize({
-    x: -wallVector.y,
-    y: wallVector.x,
-  });
-  
-  // 确保法向量指向小球
-  const ballCenter = ball.position;
-  const wallMidpoint = Vector.multiply(Vector.add(wallStart, wallEnd), 0.5);
-  const ballDirection = Vector.subtract(ballCenter, wallMidpoint);
-  
-  if (Vector.dot(wallNormal, ballDirection) < 0) {
-    wallNormal.x = -wallNormal.x;
-    wallNormal.y = -wallNormal.y;
-  }
+  // 接触点处墙面的速度
+  const surfaceVelocity = motion
+    ? getSurfaceVelocity(contactPoint, motion)
+    : { x: 0, y: 0 };
+  
+  return resolveContact(ball, wallNormal, surfaceVelocity, params, restitution);
+}
+
+/**
+ * 计算小球与运动表面接触后的速度和自转
+ * 
+ * 恢复系数和摩擦系数由墙面参数与小球材质共同决定。
+ * 法向相对速度按恢复系数反向；接触点的切向滑动由摩擦冲量消除，
+ * 摩擦冲量同时改变线速度和角速度（擦墙会让小球转起来，旋转的小球落地会被带偏），
+ * 且不超过法向冲量乘以摩擦系数。滚动阻力再按法向冲量减慢小球相对墙面的滚动。
+ */
+export function resolveContact(
+  ball: Ball,
+  normal: Vector2D,
+  surfaceVelocity: Vector2D,
+  params: PhysicsParams = PHYSICS_CONSTANTS,
+  restitutionOverride?: number
+): Ball {
+  const { mass, angularVelocity } = ball;
+  const inertia = momentOfInertia(ball);
+  const material = MATERIALS[ball.material];
+  const restitution = restitutionOverride ?? Math.sqrt(params.BOUNCE_DAMPING * material.restitution);
+  const friction = Math.sqrt(params.WALL_FRICTION * material.friction);
   
-  // 计算反射速度
-  const reflectedVelocity = Vector.reflect(ball.velocity, wallNormal);
-  const dampedVelocity = Vector.multiply(reflectedVelocity, PHYSICS_CONSTANTS.BOUNCE_DAMPING);
+  // 圆心到接触点的向量，以及接触点处由自转产生的速度 (ω × r)
+  const arm = Vector.multiply(normal, -ball.radius);
+  const spinVelocity = { x: -angularVelocity * arm.y, y: angularVelocity * arm.x };
   
-  // 修正小球位置（防止穿透）
-  const penetration = ball.radius - distance;
-  const correctionVector = Vector.multiply(wallNormal, penetration);
-  const correctedPosition = Vector.add(ball.position, correctionVector);
+  const relativeVelocity = Vector.subtract(Vector.add(ball.velocity, spinVelocity), surfaceVelocity);
+  const normalSpeed = Vector.dot(relativeVelocity, normal);
+  
+  // 已经在远离墙面，无需处理
+  if (normalSpeed >= 0) return ball;
+  
+  // 法向冲量：反弹并损失能量
+  const normalImpulse = -(1 + restitution) * normalSpeed * mass;
+  
+  // 切向冲量：消除接触点的滑动，受库仑摩擦限制
+  const tangent = { x: -normal.y, y: normal.x };
+  const armCrossTangent = cross(arm, tangent);
+  const tangentMass = 1 / (1 / mass + (armCrossTangent * armCrossTangent) / inertia);
+  const slip = Vector.dot(relativeVelocity, tangent);
+  const maxFriction = friction * normalImpulse;
+  const tangentImpulse = Math.max(-maxFriction, Math.min(maxFriction, -slip * tangentMass));
+  
+  let velocity = Vector.add(
+    ball.velocity,
+    Vector.add(
+      Vector.multiply(normal, normalImpulse / mass),
+      Vector.multiply(tangent, tangentImpulse / mass)
+    )
+  );
+  let newAngularVelocity = angularVelocity + (armCrossTangent * tangentImpulse) / inertia;
+  
+  // 滚动阻力：同时减小切向速度和角速度，不产生新的滑动
+  const rollingSpeed = Vector.dot(Vector.subtract(velocity, surfaceVelocity), tangent);
+  const rollingDelta = Math.min(
+    Math.abs(rollingSpeed),
+    (params.ROLLING_FRICTION * normalImpulse) / mass
+  ) * Math.sign(rollingSpeed);
+  velocity = Vector.subtract(velocity, Vector.multiply(tangent, rollingDelta));
+  newAngularVelocity += rollingDelta / armCrossTangent;
+  
+  return { ...ball, velocity, angularVelocity: newAngularVelocity };
+}
+
+/**
+ * 处理两个小球之间的碰撞（按质量分配冲量并修正穿透，恢复系数取双方材质的几何平均）
+ */
+export function resolveBallCollision(
+  a: Ball,
+  b: Ball,
+  params: PhysicsParams = PHYSICS_CONSTANTS
+): BallCollisionResult | null {
+  const delta = Vector.subtract(b.position, a.position);
+  const distance = Vector.magnitude(delta);
+  const minDistance = a.radius + b.radius;
+  
+  if (distance >= minDistance) return null;
+  
+  // 两球完全重合时任选一个方向分开
+  const normal = distance === 0 ? { x: 1, y: 0 } : Vector.multiply(delta, 1 / distance);
+  const inverseMassA = 1 / a.mass;
+  const inverseMassB = 1 / b.mass;
+  const inverseMassSum = inverseMassA + inverseMassB;
+  
+  // 沿法线方向的相对速度
+  const relativeVelocity = Vector.subtract(b.velocity, a.velocity);
+  const normalSpeed = Vector.dot(relativeVelocity, normal);
+  
+  let velocityA = a.velocity;
+  let velocityB = b.velocity;
+  
+  // 只有相互靠近时才施加冲量
+  if (normalSpeed < 0) {
+    const restitution = Math.sqrt(MATERIALS[a.material].restitution * MATERIALS[b.material].restitution);
+    const impulse = -(1 + restitution) * normalSpeed / inverseMassSum;
+    velocityA = Vector.subtract(velocityA, Vector.multiply(normal, impulse * inverseMassA));
+    velocityB = Vector.add(velocityB, Vector.multiply(normal, impulse * inverseMassB));
+  }
+  
+  // 位置修正（防止小球互相嵌入）
+  const penetration = minDistance - distance;
+  const correction = Vector.multiply(
+    normal,
+    (Math.max(penetration - params.POSITION_SLOP, 0) / inverseMassSum) *
+      params.POSITION_CORRECTION
+  );
   
   return {
-    ...ball,
-    position: correctedPosition,
-    velocity: dampedVelocity,
+    a: {
+      ...a,
+      position: Vector.subtract(a.position, Vector.multiply(correction, inverseMassA)),
+      velocity: velocityA,
+    },
+    b: {
+      ...b,
+      position: Vector.add(b.position, Vector.multiply(correction, inverseMassB)),
+      velocity: velocityB,
+    },
+    impactSpeed: Math.max(-normalSpeed, 0),
+    point: Vector.add(a.position, Vector.multiply(normal, a.radius)),
   };
 }
 
+/**
+ * 根据半径和材质密度计算小球质量
+ */
+export function massFromRadius(radius: number, density: number = MATERIALS[MaterialId.RUBBER].density): number {
+  return radius * radius * density;
+}
+
 /**
  * 创建初始小球状态
  */
-export function createBall(x: number, y: number, radius: number = 8): Ball {
+export function createBall(
+  x: number,
+  y: number,
+  radius: number = 8,
+  id: number = 0,
+  material: MaterialId = MaterialId.RUBBER
+): Ball {
   return {
+    id,
     position: { x, y },
     velocity: { x: 0, y: 0 },
     radius,
+    mass: massFromRadius(radius, MATERIALS[material].density),
+    angularVelocity: 0,
+    angle: 0,
+    material,
   };
 }
\ No newline at end of file
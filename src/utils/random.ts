@@ -0,0 +1,96 @@
+/**
+ * 可设定种子的伪随机数生成器（mulberry32）
+ *
+ * 相同的种子总是产生相同的序列，内部状态只有一个 32 位整数，
+ * 可以随快照一起保存和恢复。
+ */
+export class Random {
+  private state: number;
+
+  constructor(seed: number = Date.now()) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * 返回 [0, 1) 之间的随机数
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * 返回 [min, max) 之间的随机数
+   */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * 获取内部状态
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * 恢复内部状态
+   */
+  setState(state: number) {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * 随机数流名称常量
+ */
+export const RandomStream = {
+  SIMULATION: 'simulation',
+  EFFECTS: 'effects',
+  AUDIO: 'audio',
+  PARTICLES: 'particles',
+} as const;
+
+export type RandomStream = typeof RandomStream[keyof typeof RandomStream];
+
+/**
+ * 字符串哈希（FNV-1a），用于从种子和名称派生子种子
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 全局随机数服务
+ *
+ * 由一个会话种子派生出互相独立的命名随机数流，
+ * 视觉特效消耗的随机数不会影响物理模拟的序列。
+ */
+export class RandomService {
+  readonly seed: number;
+  private streams: Map<RandomStream, Random> = new Map();
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+  }
+
+  /**
+   * 获取指定名称的随机数流（同名总是返回同一个实例）
+   */
+  stream(name: RandomStream): Random {
+    let random = this.streams.get(name);
+    if (!random) {
+      random = new Random(this.seed ^ hashString(name));
+      this.streams.set(name, random);
+    }
+    return random;
+  }
+}
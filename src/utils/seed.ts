@@ -0,0 +1,40 @@
+import { hashString } from './random';
+
+/**
+ * URL 中表示种子的查询参数名
+ */
+const SEED_PARAM = 'seed';
+
+/**
+ * 生成一个新的会话种子
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * 解析种子：纯数字直接使用，其他字符串取哈希值
+ */
+export function parseSeed(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  return hashString(trimmed);
+}
+
+/**
+ * 从当前页面 URL 读取种子（?seed=123）
+ */
+export function readSeedFromUrl(): number | null {
+  const value = new URLSearchParams(window.location.search).get(SEED_PARAM);
+  return value === null ? null : parseSeed(value);
+}
+
+/**
+ * 把种子写入当前页面 URL，便于分享和复现
+ */
+export function writeSeedToUrl(seed: number) {
+  const url = new URL(window.location.href);
+  url.searchParams.set(SEED_PARAM, String(seed));
+  window.history.replaceState(null, '', url);
+}
@@ -0,0 +1,151 @@
+import { Vector } from './physics';
+import type { Vector2D } from './physics';
+import { closestPointOnSegment, generatePolygonVertices } from './collision';
+
+/**
+ * 容器形状：正多边形或自定义顶点列表（可以是凹多边形）
+ *
+ * 自定义顶点使用单位坐标（到原点的最大距离为 1），按容器半径缩放。
+ */
+export type ContainerShape =
+  | { kind: 'regular'; sides: number }
+  | { kind: 'custom'; name: string; points: Vector2D[] };
+
+/**
+ * 正多边形边数范围
+ */
+export const MIN_SIDES = 3;
+export const MAX_SIDES = 16;
+
+/**
+ * 默认形状：六边形
+ */
+export const DEFAULT_SHAPE: ContainerShape = { kind: 'regular', sides: 6 };
+
+/**
+ * 生成星形的单位顶点
+ */
+function createStarPoints(spikes: number, innerRatio: number): Vector2D[] {
+  const points: Vector2D[] = [];
+  for (let i = 0; i < spikes * 2; i++) {
+    const angle = (Math.PI / spikes) * i - Math.PI / 2;
+    const r = i % 2 === 0 ? 1 : innerRatio;
+    points.push({ x: Math.cos(angle) * r, y: Math.sin(angle) * r });
+  }
+  return points;
+}
+
+/**
+ * 预设的自定义形状
+ */
+export const SHAPE_PRESETS: Record<string, { label: string; points: Vector2D[] }> = {
+  star: {
+    label: '星形',
+    points: createStarPoints(5, 0.55),
+  },
+  lShape: {
+    label: 'L 形',
+    points: normalizeShapePoints([
+      { x: -1, y: -1 }, { x: 0, y: -1 }, { x: 0, y: 0 },
+      { x: 1, y: 0 }, { x: 1, y: 1 }, { x: -1, y: 1 },
+    ]),
+  },
+  cross: {
+    label: '十字形',
+    points: normalizeShapePoints([
+      { x: -1, y: -3 }, { x: 1, y: -3 }, { x: 1, y: -1 }, { x: 3, y: -1 },
+      { x: 3, y: 1 }, { x: 1, y: 1 }, { x: 1, y: 3 }, { x: -1, y: 3 },
+      { x: -1, y: 1 }, { x: -3, y: 1 }, { x: -3, y: -1 }, { x: -1, y: -1 },
+    ]),
+  },
+};
+
+/**
+ * 把任意顶点列表平移到中心并缩放到单位大小
+ */
+export function normalizeShapePoints(points: Vector2D[]): Vector2D[] {
+  const center = Vector.multiply(
+    points.reduce((sum, point) => Vector.add(sum, point), { x: 0, y: 0 }),
+    1 / points.length
+  );
+  const centered = points.map((point) => Vector.subtract(point, center));
+  const maxDistance = Math.max(...centered.map((point) => Vector.magnitude(point)));
+
+  return maxDistance === 0
+    ? centered
+    : centered.map((point) => Vector.multiply(point, 1 / maxDistance));
+}
+
+/**
+ * 解析用户输入的顶点列表（每行或用分号分隔一个 "x,y"），至少需要 3 个顶点
+ */
+export function parseShapePoints(text: string): Vector2D[] | null {
+  const points = text
+    .split(/[\n;]+/)
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '')
+    .map((entry) => entry.split(/[,\s]+/).map(Number));
+
+  if (points.length < 3 || points.some((pair) => pair.length !== 2 || pair.some((n) => !Number.isFinite(n)))) {
+    return null;
+  }
+
+  return normalizeShapePoints(points.map(([x, y]) => ({ x, y })));
+}
+
+/**
+ * 把顶点列表格式化为可编辑的文本
+ */
+export function formatShapePoints(points: Vector2D[]): string {
+  return points.map((point) => `${point.x.toFixed(2)},${point.y.toFixed(2)}`).join('\n');
+}
+
+/**
+ * 计算容器在当前位置、大小和旋转角度下的顶点
+ */
+export function getShapeVertices(
+  shape: ContainerShape,
+  center: Vector2D,
+  radius: number,
+  rotation: number
+): Vector2D[] {
+  if (shape.kind === 'regular') {
+    return generatePolygonVertices(center.x, center.y, radius, shape.sides, rotation);
+  }
+
+  return shape.points.map((point) =>
+    Vector.add(center, Vector.rotate(Vector.multiply(point, radius), rotation))
+  );
+}
+
+/**
+ * 形状的边数
+ */
+export function getShapeSides(shape: ContainerShape): number {
+  return shape.kind === 'regular' ? shape.sides : shape.points.length;
+}
+
+/**
+ * 内切比例：中心到最近一条边的距离与容器半径之比
+ *
+ * 以中心为圆心、该比例为半径的圆在容器任意旋转角度下都位于容器内。
+ */
+export function getInscribedRatio(shape: ContainerShape): number {
+  const center = { x: 0, y: 0 };
+  const vertices = getShapeVertices(shape, center, 1, 0);
+
+  return Math.min(...vertices.map((start, index) => {
+    const end = vertices[(index + 1) % vertices.length];
+    return Vector.magnitude(closestPointOnSegment(center, start, end));
+  }));
+}
+
+/**
+ * 形状的显示名称
+ */
+export function getShapeLabel(shape: ContainerShape): string {
+  if (shape.kind === 'regular') {
+    return `正${shape.sides}边形`;
+  }
+  return SHAPE_PRESETS[shape.name]?.label ?? '自定义';
+}
@@ -0,0 +1,23 @@
+/**
+ * 读取本地存储（不可用时返回 null，例如隐私模式或在 Node 中运行）
+ */
+export function readStorage(key: string): string | null {
+  try {
+    return globalThis.localStorage?.getItem(key) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 写入本地存储，返回是否成功（存储已满或不可用时失败）
+ */
+export function writeStorage(key: string, value: string): boolean {
+  try {
+    if (!globalThis.localStorage) return false;
+    globalThis.localStorage.setItem(key, value);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * 固定时间步长 (s)，物理模拟以 60Hz 推进
+ */
+export const FIXED_TIMESTEP = 1 / 60;
+
+/**
+ * 单帧最长时间 (s)，防止切换标签页后一次性追赶过多步数
+ */
+export const MAX_FRAME_TIME = 0.25;
+
+/**
+ * 固定步长累加器
+ *
+ * 把不定长的帧时间累积起来，按固定步长切分成若干物理步，
+ * 剩余的时间比例用于渲染插值，使不同刷新率下的模拟结果一致。
+ */
+export class FixedTimestep {
+  private accumulator: number = 0;
+  readonly step: number;
+  private readonly maxFrameTime: number;
+
+  constructor(step: number = FIXED_TIMESTEP, maxFrameTime: number = MAX_FRAME_TIME) {
+    this.step = step;
+    this.maxFrameTime = maxFrameTime;
+  }
+
+  /**
+   * 累积一帧的时间，返回本帧需要执行的物理步数
+   */
+  advance(frameTime: number): number {
+    this.accumulator += Math.min(Math.max(frameTime, 0), this.maxFrameTime);
+
+    const steps = Math.floor(this.accumulator / this.step);
+    this.accumulator -= steps * this.step;
+
+    return steps;
+  }
+
+  /**
+   * 渲染插值系数（0-1），表示当前时刻位于上一步和下一步之间的位置
+   */
+  get alpha(): number {
+    return this.accumulator / this.step;
+  }
+
+  /**
+   * 清空累积的时间
+   */
+  reset() {
+    this.accumulator = 0;
+  }
+}